@@ -0,0 +1,278 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { ApiKeyHashOptions } from './hashing.js';
+import { createApiKey, type ApiKeyRecord, type ApiKeyStore } from './store.js';
+
+/**
+ * Options for the admin routes plugin
+ */
+export interface ApiKeyAdminOptions {
+  /** Store holding the managed keys */
+  store: ApiKeyStore;
+  /**
+   * Scope required to call the admin routes
+   * @default 'api-keys:admin'
+   */
+  adminScope?: string;
+  /** Prefix of generated keys (e.g. "sk_live") */
+  keyPrefix?: string;
+  /** Hashing options, must match the ones given to `validateFromStore` */
+  hash?: ApiKeyHashOptions;
+}
+
+interface KeyParams {
+  id: string;
+}
+
+interface KeyBody {
+  name?: string;
+  scopes?: string[];
+  metadata?: Record<string, unknown>;
+  expiresAt?: string;
+}
+
+const recordSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Key ID' },
+    name: { type: 'string' },
+    scopes: { type: 'array', items: { type: 'string' } },
+    metadata: { type: 'object', additionalProperties: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    revokedAt: { type: 'string', format: 'date-time', description: 'Set once revoked' },
+  },
+  required: ['id', 'scopes', 'metadata', 'createdAt'],
+} as const;
+
+const createdKeySchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Plaintext key, only returned once' },
+    record: recordSchema,
+  },
+  required: ['key', 'record'],
+} as const;
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'integer' },
+  },
+} as const;
+
+const paramsSchema = {
+  type: 'object',
+  properties: { id: { type: 'string', minLength: 1 } },
+  required: ['id'],
+} as const;
+
+const keyBodyProperties = {
+  name: { type: 'string', minLength: 1 },
+  scopes: { type: 'array', items: { type: 'string', minLength: 1 }, uniqueItems: true },
+  metadata: { type: 'object', additionalProperties: true },
+  expiresAt: { type: 'string', format: 'date-time' },
+} as const;
+
+const keyBodySchema = {
+  type: 'object',
+  properties: keyBodyProperties,
+  additionalProperties: false,
+} as const;
+
+/**
+ * REST routes for managing the keys of an `ApiKeyStore`.
+ *
+ * Register it after the main plugin, under a prefix of your choice:
+ * `app.register(fastifyApiKeyAdmin, { prefix: '/admin/keys', store })`.
+ * Every route requires the `adminScope` scope.
+ */
+export async function fastifyApiKeyAdmin(
+  fastify: FastifyInstance,
+  options: ApiKeyAdminOptions
+): Promise<void> {
+  const { store, adminScope = 'api-keys:admin', keyPrefix, hash } = options;
+
+  if (!fastify.hasDecorator('apiKey')) {
+    throw new Error('fastify-api-key must be registered before the admin routes');
+  }
+
+  const preHandler = fastify.apiKey({ scopes: [adminScope] });
+
+  const notFound = (reply: FastifyReply, id: string): FastifyReply =>
+    reply.code(404).send({
+      error: 'API_KEY_NOT_FOUND',
+      message: `API key "${id}" not found`,
+      statusCode: 404,
+    });
+
+  fastify.post<{ Body: KeyBody }>(
+    '/',
+    {
+      preHandler,
+      schema: {
+        body: keyBodySchema,
+        response: { 201: createdKeySchema },
+      },
+    },
+    async (request, reply) => {
+      const { name, scopes, metadata, expiresAt } = request.body;
+      const created = await createApiKey(store, {
+        ...(keyPrefix === undefined ? {} : { prefix: keyPrefix }),
+        ...(hash === undefined ? {} : { hash }),
+        name,
+        scopes,
+        metadata,
+        expiresAt: expiresAt === undefined ? undefined : new Date(expiresAt),
+      });
+      fastify.apiKeyAudit.emit('key.created', request, { subject: created.record.id });
+      return reply.code(201).send(toResponse(created));
+    }
+  );
+
+  fastify.get(
+    '/',
+    {
+      preHandler,
+      schema: {
+        response: {
+          200: {
+            type: 'object',
+            properties: { keys: { type: 'array', items: recordSchema } },
+            required: ['keys'],
+          },
+        },
+      },
+    },
+    async () => ({ keys: (await store.list()).map(toPublicRecord) })
+  );
+
+  fastify.get<{ Params: KeyParams }>(
+    '/:id',
+    {
+      preHandler,
+      schema: {
+        params: paramsSchema,
+        response: { 200: recordSchema, 404: errorSchema },
+      },
+    },
+    async (request, reply) => {
+      const record = await store.findById(request.params.id);
+      return record ? toPublicRecord(record) : notFound(reply, request.params.id);
+    }
+  );
+
+  fastify.patch<{ Params: KeyParams; Body: KeyBody }>(
+    '/:id',
+    {
+      preHandler,
+      schema: {
+        params: paramsSchema,
+        body: { ...keyBodySchema, minProperties: 1 },
+        response: { 200: recordSchema, 404: errorSchema },
+      },
+    },
+    async (request, reply) => {
+      const { name, scopes, metadata, expiresAt } = request.body;
+      const record = await store.update(request.params.id, {
+        name,
+        scopes,
+        metadata,
+        expiresAt: expiresAt === undefined ? undefined : new Date(expiresAt),
+      });
+      if (!record) {
+        return notFound(reply, request.params.id);
+      }
+      // Cached results still carry the old scopes and expiry
+      fastify.apiKeyCache.invalidateKeyId(record.id);
+      fastify.apiKeyAudit.emit('key.updated', request, {
+        subject: record.id,
+        details: { fields: Object.keys(request.body) },
+      });
+      return toPublicRecord(record);
+    }
+  );
+
+  fastify.post<{ Params: KeyParams }>(
+    '/:id/rotate',
+    {
+      preHandler,
+      schema: {
+        params: paramsSchema,
+        response: { 201: createdKeySchema, 404: errorSchema, 409: errorSchema },
+      },
+    },
+    async (request, reply) => {
+      const existing = await store.findById(request.params.id);
+      if (!existing) {
+        return notFound(reply, request.params.id);
+      }
+      if (existing.revokedAt) {
+        return reply.code(409).send({
+          error: 'API_KEY_REVOKED',
+          message: `API key "${existing.id}" has been revoked`,
+          statusCode: 409,
+        });
+      }
+
+      const created = await createApiKey(store, {
+        ...(keyPrefix === undefined ? {} : { prefix: keyPrefix }),
+        ...(hash === undefined ? {} : { hash }),
+        name: existing.name,
+        scopes: existing.scopes,
+        metadata: existing.metadata,
+        expiresAt: existing.expiresAt,
+      });
+      await store.revoke(existing.id);
+      await fastify.apiKeyRevocations.revoke(existing.id);
+      fastify.apiKeyCache.invalidateKeyId(existing.id);
+      fastify.apiKeyAudit.emit('key.rotated', request, {
+        subject: existing.id,
+        details: { replacedBy: created.record.id },
+      });
+      return reply.code(201).send(toResponse(created));
+    }
+  );
+
+  fastify.post<{ Params: KeyParams }>(
+    '/:id/revoke',
+    {
+      preHandler,
+      schema: {
+        params: paramsSchema,
+        response: { 200: recordSchema, 404: errorSchema },
+      },
+    },
+    async (request, reply) => {
+      const record = await store.revoke(request.params.id);
+      if (!record) {
+        return notFound(reply, request.params.id);
+      }
+      // Cached validations of the key are rejected too
+      await fastify.apiKeyRevocations.revoke(record.id);
+      fastify.apiKeyAudit.emit('key.revoked', request, { subject: record.id });
+      return toPublicRecord(record);
+    }
+  );
+}
+
+// Hashes never leave the store
+function toPublicRecord(record: ApiKeyRecord): Omit<ApiKeyRecord, 'hash'> {
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    metadata: record.metadata,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+  };
+}
+
+function toResponse(created: { key: string; record: ApiKeyRecord }): {
+  key: string;
+  record: Omit<ApiKeyRecord, 'hash'>;
+} {
+  return { key: created.key, record: toPublicRecord(created.record) };
+}
@@ -0,0 +1,178 @@
+import { createWriteStream } from 'node:fs';
+import type { FastifyBaseLogger, FastifyRequest } from 'fastify';
+
+/**
+ * Audit event type
+ */
+export type ApiKeyAuditEventType =
+  | 'auth.success'
+  | 'auth.failure'
+  | 'scope.denied'
+  | 'key.created'
+  | 'key.updated'
+  | 'key.rotated'
+  | 'key.revoked';
+
+/**
+ * Audit event. Keys are only ever identified by ID or fingerprint.
+ */
+export interface ApiKeyAuditEvent {
+  type: ApiKeyAuditEventType;
+  /** ISO timestamp */
+  timestamp: string;
+  /** Fastify request ID */
+  requestId?: string | undefined;
+  /** Route URL pattern */
+  route?: string | undefined;
+  /** HTTP method */
+  method?: string | undefined;
+  /** Client IP */
+  ip?: string | undefined;
+  /** User-Agent header */
+  userAgent?: string | undefined;
+  /** Fingerprint of the key that made the request */
+  fingerprint?: string | undefined;
+  /** ID of the key that made the request */
+  keyId?: string | undefined;
+  /** Error code of failures */
+  reason?: string | undefined;
+  /** ID of the key acted upon by `key.*` events */
+  subject?: string | undefined;
+  /** Event specific details */
+  details?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Optional fields given when emitting an event
+ */
+export type ApiKeyAuditFields = Pick<ApiKeyAuditEvent, 'reason' | 'subject' | 'details'>;
+
+/**
+ * Custom audit sink
+ */
+export type ApiKeyAuditSink = (event: ApiKeyAuditEvent) => void | Promise<void>;
+
+/**
+ * Audit sink: `'logger'` (info level on `fastify.log`), `{ file }` (appends NDJSON)
+ * or a function
+ */
+export type ApiKeyAuditSinkOption = 'logger' | { file: string } | ApiKeyAuditSink;
+
+/**
+ * Options for the audit log
+ */
+export interface ApiKeyAuditOptions {
+  /**
+   * Where events are delivered
+   * @default ['logger']
+   */
+  sinks?: ApiKeyAuditSinkOption[];
+}
+
+/**
+ * Emits audit events to the configured sinks
+ */
+export interface ApiKeyAuditLog {
+  /** Emit an event about a request; delivery never throws into the caller */
+  emit(type: ApiKeyAuditEventType, request: FastifyRequest, fields?: ApiKeyAuditFields): void;
+  /** Flush and close file sinks */
+  close(): Promise<void>;
+}
+
+interface SinkHandle {
+  write: ApiKeyAuditSink;
+  close?: () => Promise<void>;
+}
+
+/**
+ * Create an audit log. `identify` returns the fingerprint and ID of the key
+ * used by a request, as known to the guard.
+ */
+export function createAuditLog(
+  options: ApiKeyAuditOptions,
+  log: FastifyBaseLogger,
+  identify: (
+    request: FastifyRequest
+  ) => { fingerprint?: string | undefined; keyId?: string | undefined } | undefined
+): ApiKeyAuditLog {
+  const { sinks = ['logger'] } = options;
+  const handles = sinks.map((sink) => createSink(sink, log));
+
+  const deliver = (handle: SinkHandle, event: ApiKeyAuditEvent): void => {
+    const onError = (err: unknown): void => {
+      log.error({ err, type: event.type }, 'Failed to deliver API key audit event');
+    };
+    try {
+      const delivery = handle.write(event);
+      if (delivery) {
+        delivery.catch(onError);
+      }
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return {
+    emit(
+      type: ApiKeyAuditEventType,
+      request: FastifyRequest,
+      fields: ApiKeyAuditFields = {}
+    ): void {
+      if (handles.length === 0) {
+        return;
+      }
+
+      const identity = identify(request);
+      const userAgent = request.headers['user-agent'];
+      const event: ApiKeyAuditEvent = {
+        type,
+        timestamp: new Date().toISOString(),
+        requestId: request.id,
+        route: request.routeOptions.url,
+        method: request.method,
+        ip: request.ip,
+        userAgent,
+        fingerprint: identity?.fingerprint,
+        keyId: identity?.keyId,
+        ...fields,
+      };
+
+      for (const handle of handles) {
+        deliver(handle, event);
+      }
+    },
+
+    async close(): Promise<void> {
+      await Promise.all(handles.map(async (handle) => handle.close?.()));
+    },
+  };
+}
+
+function createSink(sink: ApiKeyAuditSinkOption, log: FastifyBaseLogger): SinkHandle {
+  if (sink === 'logger') {
+    return {
+      write: (event): void => {
+        log.info({ audit: event }, event.type);
+      },
+    };
+  }
+
+  if (typeof sink === 'function') {
+    return { write: sink };
+  }
+
+  const stream = createWriteStream(sink.file, { flags: 'a', mode: 0o600 });
+  stream.on('error', (err) => {
+    log.error({ err, path: sink.file }, 'API key audit file sink failed');
+  });
+
+  return {
+    write: (event): void => {
+      stream.write(`${JSON.stringify(event)}\n`);
+    },
+    close: () =>
+      new Promise((resolve) => {
+        stream.end(resolve);
+      }),
+  };
+}
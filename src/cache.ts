@@ -0,0 +1,117 @@
+import type { ApiKeyValidationResult } from './types.js';
+import { digestApiKey } from './utils.js';
+
+/**
+ * Options for the validation result cache
+ */
+export interface ApiKeyCacheOptions {
+  /**
+   * Time to live for valid results, in milliseconds
+   * @default 60000
+   */
+  ttl?: number;
+  /**
+   * Time to live for invalid results, in milliseconds (0 disables negative caching)
+   * @default 5000
+   */
+  negativeTtl?: number;
+  /**
+   * Maximum number of cached results, least recently used entries are evicted first
+   * @default 1000
+   */
+  maxSize?: number;
+}
+
+/**
+ * Cache of validation results, keyed by a hash of the API key
+ */
+export interface ApiKeyCache {
+  /** Get a cached result for a key */
+  get(key: string): ApiKeyValidationResult | undefined;
+  /** Cache a result for a key */
+  set(key: string, result: ApiKeyValidationResult): void;
+  /** Remove a key from the cache (e.g. after revocation) */
+  invalidate(key: string): boolean;
+  /** Remove the results of a key ID (e.g. after its scopes change), returns how many */
+  invalidateKeyId(keyId: string): number;
+  /** Remove all entries */
+  clear(): void;
+  /** Number of cached entries */
+  readonly size: number;
+}
+
+interface CacheEntry {
+  result: ApiKeyValidationResult;
+  expiresAt: number;
+}
+
+/**
+ * Create an in-memory LRU cache for validation results
+ */
+export function createApiKeyCache(options: ApiKeyCacheOptions = {}): ApiKeyCache {
+  const { ttl = 60_000, negativeTtl = 5_000, maxSize = 1000 } = options;
+
+  // Map iteration order is insertion order, so the first entry is the least recently used
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key: string): ApiKeyValidationResult | undefined {
+      const id = digestApiKey(key);
+      const entry = entries.get(id);
+      if (!entry) {
+        return undefined;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(id);
+        return undefined;
+      }
+
+      entries.delete(id);
+      entries.set(id, entry);
+      return entry.result;
+    },
+
+    set(key: string, result: ApiKeyValidationResult): void {
+      const entryTtl = result.valid ? ttl : negativeTtl;
+      if (entryTtl <= 0 || maxSize <= 0) {
+        return;
+      }
+
+      const id = digestApiKey(key);
+      entries.delete(id);
+      entries.set(id, { result, expiresAt: Date.now() + entryTtl });
+
+      while (entries.size > maxSize) {
+        const oldest = entries.keys().next();
+        if (oldest.done) {
+          break;
+        }
+        entries.delete(oldest.value);
+      }
+    },
+
+    invalidate(key: string): boolean {
+      return entries.delete(digestApiKey(key));
+    },
+
+    invalidateKeyId(keyId: string): number {
+      let removed = 0;
+      for (const [id, entry] of entries) {
+        if (entry.result.keyId === keyId) {
+          entries.delete(id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+
+    get size(): number {
+      return entries.size;
+    },
+  };
+}
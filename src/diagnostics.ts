@@ -0,0 +1,78 @@
+import diagnosticsChannel from 'node:diagnostics_channel';
+import type { ApiKeyValidationResult } from './types.js';
+import type { ApiKeyAuthOutcome } from './metrics.js';
+
+/**
+ * Fields carried by every diagnostics event. The key itself is never published.
+ */
+export interface ApiKeyTraceContext {
+  /** Route URL pattern */
+  route: string;
+  /** HTTP method */
+  method: string;
+  /** Fastify request ID */
+  requestId: string;
+  /** Type of the source the key was read from */
+  source?: string | undefined;
+  /** Fingerprint of the key (see `fingerprintApiKey`) */
+  fingerprint?: string | undefined;
+  /** Key ID, once known */
+  keyId?: string | undefined;
+}
+
+/**
+ * Message of `fastify-api-key:extract`
+ */
+export interface ApiKeyExtractMessage extends ApiKeyTraceContext {
+  /** Whether a key was found */
+  found: boolean;
+}
+
+/**
+ * Context of the `fastify-api-key:validate` tracing channel. `result` (without the
+ * `signingSecret`) is set on `asyncEnd` and `error` on `error`.
+ */
+export interface ApiKeyValidateContext extends ApiKeyTraceContext {
+  result?: Omit<ApiKeyValidationResult, 'signingSecret'> | undefined;
+  error?: unknown;
+}
+
+/**
+ * Message of `fastify-api-key:scope-check`
+ */
+export interface ApiKeyScopeCheckMessage extends ApiKeyTraceContext {
+  /** Scopes granted to the key */
+  granted: string[];
+  /** Scope requirements of the guard */
+  required: {
+    scopes?: string[] | undefined;
+    anyScope?: string[] | undefined;
+    requires?: string | undefined;
+  };
+  /** Whether the requirements are met */
+  passed: boolean;
+}
+
+/**
+ * Message of `fastify-api-key:decision`
+ */
+export interface ApiKeyDecisionMessage extends ApiKeyTraceContext {
+  /** Final outcome; `anonymous` when the request continues without a key */
+  outcome: ApiKeyAuthOutcome | 'anonymous';
+  /** Error code of denied requests */
+  errorCode?: string | undefined;
+}
+
+/** Published after the key is read from the request */
+export const extractChannel = diagnosticsChannel.channel('fastify-api-key:extract');
+
+/** Traces `validate` calls (cache hits are not traced) */
+export const validateChannel = diagnosticsChannel.tracingChannel<unknown, ApiKeyValidateContext>(
+  'fastify-api-key:validate'
+);
+
+/** Published after scopes are checked */
+export const scopeCheckChannel = diagnosticsChannel.channel('fastify-api-key:scope-check');
+
+/** Published once per guard run with the final outcome */
+export const decisionChannel = diagnosticsChannel.channel('fastify-api-key:decision');
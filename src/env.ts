@@ -0,0 +1,123 @@
+import { readFileSync } from 'node:fs';
+import type { ApiKeyValidator } from './types.js';
+import { isApiKeyHash, verifyApiKey, type ApiKeyHashOptions } from './hashing.js';
+
+/**
+ * Key loaded from the environment
+ */
+export interface EnvApiKey {
+  /** Key name, used as key ID */
+  name: string;
+  /** Hash produced by `hashApiKey` */
+  hash: string;
+  /** Scopes granted */
+  scopes: string[];
+}
+
+/**
+ * Options for `keysFromEnv`
+ */
+export interface KeysFromEnvOptions {
+  /**
+   * Variable holding the keys. `<variable>_FILE` may instead point to a file
+   * holding the same format (e.g. a Docker secret).
+   * @default 'API_KEYS'
+   */
+  variable?: string;
+  /**
+   * Environment to read from
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+  /** Hashing options, must match the ones used to hash the keys */
+  hash?: ApiKeyHashOptions;
+}
+
+/**
+ * Load static keys from an environment variable.
+ *
+ * Format: `name:hash:scope1,scope2` entries separated by `;` or newlines, where `hash`
+ * comes from `hashApiKey` and scopes are optional, e.g.
+ * `API_KEYS='ci:$sha256$v=1$...:deploy;reports:$sha256$v=1$...:read'`.
+ *
+ * Hashes contain `$`, which shells expand inside double quotes and docker-compose expands
+ * everywhere: single-quote the value in a shell, write each `$` as `$$` in compose files,
+ * or put the entries in a file and point `API_KEYS_FILE` at it.
+ *
+ * The returned validator checks the presented key against every configured key so the
+ * response time does not reveal which key, if any, matched.
+ */
+export function keysFromEnv(options: KeysFromEnvOptions = {}): {
+  keys: EnvApiKey[];
+  validate: ApiKeyValidator;
+} {
+  const { variable = 'API_KEYS', env = process.env, hash: hashOptions = {} } = options;
+  const keys = parseEnvKeys(readEnvValue(env, variable), variable);
+
+  const validate: ApiKeyValidator = async (key) => {
+    const verifications = await Promise.all(
+      keys.map((entry) => verifyApiKey(key, entry.hash, hashOptions))
+    );
+
+    // No early exit: every configured key is checked
+    let match: EnvApiKey | undefined;
+    verifications.forEach((verification, index) => {
+      if (verification.valid && !match) {
+        match = keys[index];
+      }
+    });
+
+    if (!match) {
+      return { valid: false };
+    }
+    return { valid: true, keyId: match.name, scopes: [...match.scopes], metadata: {} };
+  };
+
+  return { keys, validate };
+}
+
+function readEnvValue(env: Record<string, string | undefined>, variable: string): string {
+  const value = env[variable];
+  const file = env[`${variable}_FILE`];
+
+  if (value !== undefined && file !== undefined) {
+    throw new Error(`Set either ${variable} or ${variable}_FILE, not both`);
+  }
+  return file === undefined ? (value ?? '') : readFileSync(file, 'utf8');
+}
+
+function parseEnvKeys(value: string, variable: string): EnvApiKey[] {
+  const names = new Set<string>();
+
+  return value
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry, index) => {
+      // Entries are not echoed back: they hold key hashes
+      const at = `${variable} entry ${String(index + 1)}`;
+      // Names and hashes never contain colons, scopes may (e.g. `repo:read`)
+      const [name = '', hash = '', ...scopeParts] = entry.split(':');
+      const scopes = scopeParts.join(':');
+
+      if (!/^[\w.-]+$/.test(name)) {
+        throw new Error(`Invalid ${at}: expected "name:hash:scope1,scope2"`);
+      }
+      if (!isApiKeyHash(hash)) {
+        throw new Error(`Invalid ${at}: "${name}" does not have a hash from hashApiKey`);
+      }
+      if (names.has(name)) {
+        throw new Error(`Invalid ${at}: duplicate name "${name}"`);
+      }
+      names.add(name);
+
+      return {
+        name,
+        hash,
+        scopes: scopes
+          .split(',')
+          .map((scope) => scope.trim())
+          .filter((scope) => scope !== ''),
+      };
+    });
+}
@@ -42,18 +42,57 @@ export class InvalidApiKeyError extends ApiKeyError {
   }
 }
 
+/**
+ * Error thrown when API key has expired
+ */
+export class ExpiredApiKeyError extends ApiKeyError {
+  public readonly expiresAt: Date | undefined;
+
+  constructor(expiresAt?: Date) {
+    super('EXPIRED_API_KEY', 'API key has expired', 401);
+    this.name = 'ExpiredApiKeyError';
+    this.expiresAt = expiresAt;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      ...(this.expiresAt && !isNaN(this.expiresAt.getTime())
+        ? { expiresAt: this.expiresAt.toISOString() }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Error thrown when API key has been revoked
+ */
+export class RevokedApiKeyError extends ApiKeyError {
+  constructor() {
+    super('REVOKED_API_KEY', 'API key has been revoked', 401);
+    this.name = 'RevokedApiKeyError';
+  }
+}
+
 /**
  * Error thrown when API key lacks required scopes
  */
 export class InsufficientScopesError extends ApiKeyError {
   public readonly requiredScopes: string[];
   public readonly providedScopes: string[];
+  /** The scope expression clause that failed, if any */
+  public readonly clause: string | undefined;
 
-  constructor(required: string[], provided: string[]) {
-    super('INSUFFICIENT_SCOPES', `Insufficient scopes. Required: ${required.join(', ')}`, 403);
+  constructor(required: string[], provided: string[], clause?: string) {
+    super(
+      'INSUFFICIENT_SCOPES',
+      `Insufficient scopes. Required: ${clause ?? required.join(', ')}`,
+      403
+    );
     this.name = 'InsufficientScopesError';
     this.requiredScopes = required;
     this.providedScopes = provided;
+    this.clause = clause;
   }
 
   override toJSON(): Record<string, unknown> {
@@ -61,10 +100,31 @@ export class InsufficientScopesError extends ApiKeyError {
       ...super.toJSON(),
       requiredScopes: this.requiredScopes,
       providedScopes: this.providedScopes,
+      ...(this.clause === undefined ? {} : { clause: this.clause }),
     };
   }
 }
 
+/**
+ * Error thrown when the client IP is not in the key's allowlist
+ */
+export class IpNotAllowedError extends ApiKeyError {
+  constructor() {
+    super('IP_NOT_ALLOWED', 'API key is not allowed from this IP address', 403);
+    this.name = 'IpNotAllowedError';
+  }
+}
+
+/**
+ * Error thrown when the request origin is not allowed for the key
+ */
+export class OriginNotAllowedError extends ApiKeyError {
+  constructor(message = 'API key is not allowed from this origin') {
+    super('ORIGIN_NOT_ALLOWED', message, 403);
+    this.name = 'OriginNotAllowedError';
+  }
+}
+
 /**
  * Error thrown when rate limit is exceeded
  */
@@ -84,3 +144,43 @@ export class RateLimitExceededError extends ApiKeyError {
     };
   }
 }
+
+/**
+ * Error thrown when a signed request has a missing or wrong signature
+ */
+export class InvalidSignatureError extends ApiKeyError {
+  constructor(message = 'Invalid request signature') {
+    super('INVALID_SIGNATURE', message, 401);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+ * Error thrown when the timestamp of a signed request is outside the allowed window
+ */
+export class StaleTimestampError extends ApiKeyError {
+  constructor() {
+    super('STALE_TIMESTAMP', 'Request timestamp is outside the allowed window', 401);
+    this.name = 'StaleTimestampError';
+  }
+}
+
+/**
+ * Error thrown when the nonce of a signed request has already been used
+ */
+export class ReplayedRequestError extends ApiKeyError {
+  constructor() {
+    super('REPLAYED_REQUEST', 'Request has already been received', 401);
+    this.name = 'ReplayedRequestError';
+  }
+}
+
+/**
+ * Error thrown when a signed URL has expired
+ */
+export class ExpiredSignedUrlError extends ApiKeyError {
+  constructor() {
+    super('EXPIRED_SIGNED_URL', 'Signed URL has expired', 401);
+    this.name = 'ExpiredSignedUrlError';
+  }
+}
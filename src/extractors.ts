@@ -5,10 +5,20 @@ import type { ApiKeySource } from './types.js';
  * Extract API key from request based on configured sources
  */
 export function extractApiKey(request: FastifyRequest, sources: ApiKeySource[]): string | null {
+  return extractApiKeyWithSource(request, sources)?.key ?? null;
+}
+
+/**
+ * Extract API key from request along with the source it was found in
+ */
+export function extractApiKeyWithSource(
+  request: FastifyRequest,
+  sources: ApiKeySource[]
+): { key: string; source: ApiKeySource } | null {
   for (const source of sources) {
     const key = extractFromSource(request, source);
     if (key) {
-      return key;
+      return { key, source };
     }
   }
   return null;
@@ -0,0 +1,304 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import { basename, dirname, extname } from 'node:path';
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  InMemoryApiKeyStore,
+  type ApiKeyRecord,
+  type ApiKeyStore,
+  type CreateApiKeyRecord,
+  type UpdateApiKeyRecord,
+} from './store.js';
+import { isApiKeyHash } from './hashing.js';
+
+/**
+ * Key as stored in the file (dates are ISO strings)
+ */
+export interface ApiKeyFileEntry {
+  id: string;
+  /** Hash from `hashApiKey` */
+  hash: string;
+  name?: string;
+  scopes?: string[];
+  metadata?: Record<string, unknown>;
+  createdAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Contents of a key file
+ */
+export interface ApiKeyFile {
+  keys: ApiKeyFileEntry[];
+}
+
+/**
+ * Options for `FileApiKeyStore`
+ */
+export interface FileApiKeyStoreOptions {
+  /** Path of the key file */
+  path: string;
+  /**
+   * Parse the file contents, required for non-JSON files (e.g. `parse` from the yaml package)
+   * @default JSON.parse for .json files
+   */
+  parse?: (content: string) => unknown;
+  /**
+   * Serialize the keys when the store is written to. Without it, non-JSON files are read-only.
+   * @default JSON with 2-space indentation for .json files
+   */
+  serialize?: (file: ApiKeyFile) => string;
+  /**
+   * Reload the file when it changes
+   * @default true
+   */
+  watch?: boolean;
+  /**
+   * Delay in milliseconds used to coalesce change events
+   * @default 100
+   */
+  debounce?: number;
+}
+
+/**
+ * API key store backed by a JSON (or YAML, with a custom `parse`) file.
+ *
+ * The file is loaded by `start()`, which the plugin calls when given the store, and
+ * reloaded when it changes. Malformed files are rejected and the last good version is
+ * kept. Writes replace the file atomically.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private readonly path: string;
+  private readonly parse: (content: string) => unknown;
+  private readonly serialize: ((file: ApiKeyFile) => string) | undefined;
+  private readonly watchFile: boolean;
+  private readonly debounce: number;
+  private records = new InMemoryApiKeyStore();
+  private content: string | undefined;
+  private log: FastifyBaseLogger | undefined;
+  private watcher: FSWatcher | undefined;
+  private reloadTimer: NodeJS.Timeout | undefined;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileApiKeyStoreOptions) {
+    const { path, parse, serialize, watch = true, debounce = 100 } = options;
+    const isJson = extname(path).toLowerCase() === '.json';
+
+    if (!parse && !isJson) {
+      throw new Error(
+        `Cannot read "${path}": pass a parse function for non-JSON files (e.g. parse from the yaml package)`
+      );
+    }
+
+    this.path = path;
+    this.parse = parse ?? ((content): unknown => JSON.parse(content));
+    this.serialize =
+      serialize ?? (isJson ? (file): string => `${JSON.stringify(file, null, 2)}\n` : undefined);
+    this.watchFile = watch;
+    this.debounce = debounce;
+  }
+
+  /**
+   * Load the file and start watching it. Throws if the file is missing or malformed.
+   */
+  async start(log?: FastifyBaseLogger): Promise<void> {
+    this.log = log;
+    await this.load();
+
+    if (this.watchFile && !this.watcher) {
+      // Watch the directory: atomic replacements swap the file's inode
+      const name = basename(this.path);
+      this.watcher = watch(dirname(this.path), (_event, filename) => {
+        if (filename === name) {
+          this.scheduleReload();
+        }
+      });
+      this.watcher.on('error', (err) => {
+        this.log?.error({ err, path: this.path }, 'API key file watcher failed');
+      });
+      this.watcher.unref();
+    }
+  }
+
+  /**
+   * Stop watching the file
+   */
+  async close(): Promise<void> {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+    await this.writes;
+  }
+
+  /**
+   * Read the file and replace the loaded keys. Returns false when the contents did not
+   * change. Throws (keeping the current keys) if the file cannot be read or is malformed.
+   */
+  async load(): Promise<boolean> {
+    const content = await readFile(this.path, 'utf8');
+    if (content === this.content) {
+      return false;
+    }
+
+    let records: ApiKeyRecord[];
+    try {
+      records = parseKeyFile(this.parse(content));
+    } catch (err) {
+      throw new Error(`Invalid API key file "${this.path}": ${(err as Error).message}`, {
+        cause: err,
+      });
+    }
+
+    this.records = new InMemoryApiKeyStore(records);
+    this.content = content;
+    return true;
+  }
+
+  async create(record: CreateApiKeyRecord): Promise<ApiKeyRecord> {
+    return this.write((records) => records.create(record));
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    return this.records.findById(id);
+  }
+
+  async findByHash(hash: string): Promise<ApiKeyRecord | null> {
+    return this.records.findByHash(hash);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return this.records.list();
+  }
+
+  async update(id: string, changes: UpdateApiKeyRecord): Promise<ApiKeyRecord | null> {
+    return this.write((records) => records.update(id, changes));
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    return this.write((records) => records.revoke(id));
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      void this.reload();
+    }, this.debounce);
+    this.reloadTimer.unref();
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      if (await this.load()) {
+        this.log?.info(
+          { path: this.path, keys: (await this.records.list()).length },
+          'API key file reloaded'
+        );
+      }
+    } catch (err) {
+      this.log?.error({ err, path: this.path }, 'API key file not reloaded, keeping last version');
+    }
+  }
+
+  // Writes are serialized so the file always reflects every applied change
+  private async write<T>(change: (records: InMemoryApiKeyStore) => Promise<T>): Promise<T> {
+    const serialize = this.serialize;
+    if (!serialize) {
+      throw new Error(`API key file "${this.path}" is read-only: pass a serialize function`);
+    }
+
+    const run = this.writes.then(async () => {
+      const result = await change(this.records);
+      const file = { keys: (await this.records.list()).map(toFileEntry) };
+      const content = serialize(file);
+      const tmpPath = `${this.path}.${randomBytes(6).toString('hex')}.tmp`;
+
+      await writeFile(tmpPath, content, { mode: 0o600 });
+      await rename(tmpPath, this.path);
+      this.content = content;
+      return result;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+function toFileEntry(record: ApiKeyRecord): ApiKeyFileEntry {
+  return {
+    id: record.id,
+    hash: record.hash,
+    ...(record.name === undefined ? {} : { name: record.name }),
+    scopes: record.scopes,
+    metadata: record.metadata,
+    createdAt: record.createdAt.toISOString(),
+    ...(record.expiresAt ? { expiresAt: record.expiresAt.toISOString() } : {}),
+    ...(record.revokedAt ? { revokedAt: record.revokedAt.toISOString() } : {}),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseKeyFile(data: unknown): ApiKeyRecord[] {
+  const keys = isObject(data) ? data.keys : undefined;
+  if (!Array.isArray(keys)) {
+    throw new Error('expected an object with a "keys" array');
+  }
+
+  const ids = new Set<string>();
+  const hashes = new Set<string>();
+
+  return keys.map((entry: unknown, index) => {
+    const at = `keys[${String(index)}]`;
+    if (!isObject(entry)) {
+      throw new Error(`${at} must be an object`);
+    }
+
+    const { id, hash, name, scopes = [], metadata = {} } = entry;
+    if (typeof id !== 'string' || id === '') {
+      throw new Error(`${at}.id must be a non-empty string`);
+    }
+    if (typeof hash !== 'string' || !isApiKeyHash(hash)) {
+      throw new Error(`${at}.hash must be a hash from hashApiKey`);
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      throw new Error(`${at}.name must be a string`);
+    }
+    if (!Array.isArray(scopes) || !scopes.every((scope) => typeof scope === 'string')) {
+      throw new Error(`${at}.scopes must be an array of strings`);
+    }
+    if (!isObject(metadata)) {
+      throw new Error(`${at}.metadata must be an object`);
+    }
+    if (ids.has(id) || hashes.has(hash)) {
+      throw new Error(`${at} duplicates the id or hash of another key`);
+    }
+    ids.add(id);
+    hashes.add(hash);
+
+    return {
+      id,
+      hash,
+      name,
+      scopes,
+      metadata,
+      createdAt: parseDate(entry.createdAt, `${at}.createdAt`) ?? new Date(0),
+      expiresAt: parseDate(entry.expiresAt, `${at}.expiresAt`),
+      revokedAt: parseDate(entry.revokedAt, `${at}.revokedAt`),
+    };
+  });
+}
+
+function parseDate(value: unknown, at: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  // YAML parsers may already produce Date objects
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' ? value : NaN);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${at} must be an ISO date`);
+  }
+  return date;
+}
@@ -0,0 +1,263 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Supported hashing algorithms.
+ *
+ * - `sha256`: deterministic SHA-256 (HMAC-SHA256 when a pepper is set), suitable for
+ *   looking keys up by hash
+ * - `scrypt`: salted and memory-hard, for high-value keys verified by ID
+ */
+export type ApiKeyHashAlgorithm = 'sha256' | 'scrypt';
+
+/**
+ * scrypt cost parameters
+ */
+export interface ScryptParams {
+  /** CPU/memory cost (N) */
+  cost?: number;
+  /** Block size (r) */
+  blockSize?: number;
+  /** Parallelization (p) */
+  parallelization?: number;
+}
+
+/**
+ * Options for hashing and verifying API keys
+ */
+export interface ApiKeyHashOptions {
+  /**
+   * Algorithm used for new hashes (and considered current when verifying)
+   * @default 'sha256'
+   */
+  algorithm?: ApiKeyHashAlgorithm;
+  /** Server-side secret mixed into every hash */
+  pepper?: string | undefined;
+  /** scrypt cost parameters */
+  scrypt?: ScryptParams;
+}
+
+/**
+ * Result of verifying an API key against a stored hash
+ */
+export interface ApiKeyVerification {
+  /** Whether the key matches the hash */
+  valid: boolean;
+  /** Whether the hash should be replaced with one from `hashApiKey` */
+  needsRehash: boolean;
+}
+
+interface ParsedHash {
+  algorithm: ApiKeyHashAlgorithm;
+  version: number;
+  params: Record<string, number>;
+  salt?: Buffer;
+  digest: Buffer;
+}
+
+const HASH_VERSION = 1;
+const SCRYPT_KEY_LENGTH = 32;
+const SCRYPT_SALT_LENGTH = 16;
+const DEFAULT_SCRYPT = { cost: 16384, blockSize: 8, parallelization: 1 };
+const BASE64URL = /^[\w-]+$/;
+
+/**
+ * Hash an API key for at-rest storage.
+ *
+ * Produces a self-describing string such as `$sha256$v=1$<digest>` or
+ * `$scrypt$v=1,n=16384,r=8,p=1$<salt>$<digest>`.
+ */
+export async function hashApiKey(key: string, options: ApiKeyHashOptions = {}): Promise<string> {
+  const { algorithm = 'sha256', pepper } = options;
+
+  if (algorithm === 'scrypt') {
+    const params = resolveScryptParams(options.scrypt);
+    const salt = randomBytes(SCRYPT_SALT_LENGTH);
+    const digest = await scryptDigest(key, pepper, salt, params);
+    return [
+      '',
+      'scrypt',
+      `v=${String(HASH_VERSION)},n=${String(params.cost)},r=${String(params.blockSize)},p=${String(params.parallelization)}`,
+      salt.toString('base64url'),
+      digest.toString('base64url'),
+    ].join('$');
+  }
+
+  return [
+    '',
+    'sha256',
+    `v=${String(HASH_VERSION)}`,
+    sha256Digest(key, pepper).toString('base64url'),
+  ].join('$');
+}
+
+/**
+ * Verify an API key against a hash produced by `hashApiKey`.
+ *
+ * `needsRehash` is set when the key is valid but the hash uses an algorithm,
+ * version or cost other than the ones currently configured.
+ */
+export async function verifyApiKey(
+  key: string,
+  hash: string,
+  options: ApiKeyHashOptions = {}
+): Promise<ApiKeyVerification> {
+  const parsed = parseHash(hash);
+  if (!parsed || typeof key !== 'string') {
+    return { valid: false, needsRehash: false };
+  }
+
+  let digest: Buffer;
+  if (parsed.algorithm === 'scrypt') {
+    if (!parsed.salt) {
+      return { valid: false, needsRehash: false };
+    }
+    try {
+      digest = await scryptDigest(
+        key,
+        options.pepper,
+        parsed.salt,
+        {
+          cost: parsed.params.n ?? DEFAULT_SCRYPT.cost,
+          blockSize: parsed.params.r ?? DEFAULT_SCRYPT.blockSize,
+          parallelization: parsed.params.p ?? DEFAULT_SCRYPT.parallelization,
+        },
+        parsed.digest.length
+      );
+    } catch {
+      // Parameters scrypt rejects (e.g. beyond its memory limit) match no key
+      return { valid: false, needsRehash: false };
+    }
+  } else {
+    digest = sha256Digest(key, options.pepper);
+  }
+
+  const valid = digest.length === parsed.digest.length && timingSafeEqual(digest, parsed.digest);
+  return { valid, needsRehash: valid && isOutdated(parsed, options) };
+}
+
+/**
+ * Check whether a string is a hash produced by `hashApiKey`: known algorithm, valid
+ * parameters and a digest of the right length
+ */
+export function isApiKeyHash(hash: string): boolean {
+  return parseHash(hash) !== null;
+}
+
+function sha256Digest(key: string, pepper: string | undefined): Buffer {
+  return pepper
+    ? createHmac('sha256', pepper).update(key).digest()
+    : createHash('sha256').update(key).digest();
+}
+
+function scryptDigest(
+  key: string,
+  pepper: string | undefined,
+  salt: Buffer,
+  params: Required<ScryptParams>,
+  keyLength = SCRYPT_KEY_LENGTH
+): Promise<Buffer> {
+  const input = pepper ? createHmac('sha256', pepper).update(key).digest() : Buffer.from(key);
+  return new Promise((resolve, reject) => {
+    scrypt(
+      input,
+      salt,
+      keyLength,
+      {
+        N: params.cost,
+        r: params.blockSize,
+        p: params.parallelization,
+        maxmem: 256 * params.cost * params.blockSize,
+      },
+      (error, derived) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(derived);
+      }
+    );
+  });
+}
+
+function resolveScryptParams(params: ScryptParams = {}): Required<ScryptParams> {
+  return { ...DEFAULT_SCRYPT, ...params };
+}
+
+function parseHash(hash: string): ParsedHash | null {
+  if (typeof hash !== 'string' || !hash.startsWith('$')) {
+    return null;
+  }
+
+  const [, algorithm, rawParams, ...rest] = hash.split('$');
+  if ((algorithm !== 'sha256' && algorithm !== 'scrypt') || rawParams === undefined) {
+    return null;
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of rawParams.split(',')) {
+    const [name, value] = pair.split('=');
+    const parsedValue = Number(value);
+    if (!name || !Number.isSafeInteger(parsedValue) || parsedValue <= 0) {
+      return null;
+    }
+    params[name] = parsedValue;
+  }
+
+  const version = params.v;
+  if (version === undefined) {
+    return null;
+  }
+
+  if (algorithm === 'scrypt') {
+    const [salt, digest] = rest;
+    if (rest.length !== 2 || !salt || !BASE64URL.test(salt) || !isDigest(digest)) {
+      return null;
+    }
+    // N must be a power of two above 1, as required by scrypt
+    const cost = params.n ?? DEFAULT_SCRYPT.cost;
+    if (cost < 2 || (cost & (cost - 1)) !== 0) {
+      return null;
+    }
+    return {
+      algorithm,
+      version,
+      params,
+      salt: Buffer.from(salt, 'base64url'),
+      digest: Buffer.from(digest, 'base64url'),
+    };
+  }
+
+  const [digest] = rest;
+  if (rest.length !== 1 || !isDigest(digest)) {
+    return null;
+  }
+  return { algorithm, version, params, digest: Buffer.from(digest, 'base64url') };
+}
+
+/** Both algorithms produce 32-byte digests */
+function isDigest(digest: string | undefined): digest is string {
+  return (
+    digest !== undefined &&
+    BASE64URL.test(digest) &&
+    Buffer.from(digest, 'base64url').length === SCRYPT_KEY_LENGTH
+  );
+}
+
+function isOutdated(parsed: ParsedHash, options: ApiKeyHashOptions): boolean {
+  const { algorithm = 'sha256' } = options;
+
+  if (parsed.algorithm !== algorithm || parsed.version < HASH_VERSION) {
+    return true;
+  }
+
+  if (parsed.algorithm === 'scrypt') {
+    const current = resolveScryptParams(options.scrypt);
+    return (
+      (parsed.params.n ?? 0) < current.cost ||
+      (parsed.params.r ?? 0) < current.blockSize ||
+      (parsed.params.p ?? 0) < current.parallelization
+    );
+  }
+
+  return false;
+}
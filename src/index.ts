@@ -12,6 +12,8 @@ export type {
   ApiKeyHook,
   ApiKeyGuardOptions,
   ApiKeyData,
+  ProtectRoutesOptions,
+  RouteProtection,
 } from './types.js';
 
 // Re-export all errors
@@ -19,12 +21,172 @@ export {
   ApiKeyError,
   MissingApiKeyError,
   InvalidApiKeyError,
+  ExpiredApiKeyError,
+  RevokedApiKeyError,
   InsufficientScopesError,
+  IpNotAllowedError,
+  OriginNotAllowedError,
   RateLimitExceededError,
+  InvalidSignatureError,
+  StaleTimestampError,
+  ReplayedRequestError,
+  ExpiredSignedUrlError,
 } from './errors.js';
 
 // Re-export utilities
-export { timingSafeCompare, hasAllScopes, hasAnyScope, generateApiKey } from './utils.js';
+export {
+  timingSafeCompare,
+  hasAllScopes,
+  hasAnyScope,
+  generateApiKey,
+  fingerprintApiKey,
+  maskApiKey,
+} from './utils.js';
+export { isIpAllowed, isOriginAllowed } from './restrictions.js';
+
+// Re-export scope matching
+export { createScopeMatcher, exactScopeMatcher } from './scopes.js';
+export type { ScopeMatcher, ScopeMatcherOptions } from './scopes.js';
+export {
+  compileScopeExpression,
+  evaluateScopeExpression,
+  formatScopeExpression,
+} from './scope-expression.js';
+export type { ScopeExpression, ScopeExpressionResult, ScopeNode } from './scope-expression.js';
+
+// Re-export structured key format
+export { generateStructuredApiKey, parseApiKey } from './key-format.js';
+export type {
+  ParsedApiKey,
+  ParseApiKeyOptions,
+  StructuredApiKey,
+  StructuredApiKeyOptions,
+} from './key-format.js';
+
+// Re-export validation cache
+export { createApiKeyCache } from './cache.js';
+export type { ApiKeyCache, ApiKeyCacheOptions } from './cache.js';
+
+// Re-export rate limiting
+export { InMemoryRateLimitStore } from './rate-limit.js';
+export type {
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitHeaderStyle,
+  RateLimitOptions,
+  RateLimitPolicy,
+  RateLimitStore,
+} from './rate-limit.js';
+
+// Re-export revocation list
+export { EventEmitterRevocationBackend, createRevocationList } from './revocation.js';
+export type {
+  ApiKeyRevocationList,
+  RevocationBackend,
+  RevocationEntry,
+  RevocationListOptions,
+  RevokeOptions,
+} from './revocation.js';
+
+// Re-export usage tracking
+export { createUsageTracker } from './usage.js';
+export type {
+  ApiKeyUsage,
+  ApiKeyUsageSink,
+  ApiKeyUsageTracker,
+  UsageTrackingOptions,
+} from './usage.js';
+
+// Re-export metrics
+export { createApiKeyMetrics, PROMETHEUS_CONTENT_TYPE } from './metrics.js';
+export type { ApiKeyAuthOutcome, ApiKeyMetrics, ApiKeyMetricsOptions } from './metrics.js';
+
+// Re-export diagnostics channels
+export {
+  decisionChannel,
+  extractChannel,
+  scopeCheckChannel,
+  validateChannel,
+} from './diagnostics.js';
+export type {
+  ApiKeyDecisionMessage,
+  ApiKeyExtractMessage,
+  ApiKeyScopeCheckMessage,
+  ApiKeyTraceContext,
+  ApiKeyValidateContext,
+} from './diagnostics.js';
+
+// Re-export audit log
+export { createAuditLog } from './audit.js';
+export type {
+  ApiKeyAuditEvent,
+  ApiKeyAuditEventType,
+  ApiKeyAuditFields,
+  ApiKeyAuditLog,
+  ApiKeyAuditOptions,
+  ApiKeyAuditSink,
+  ApiKeyAuditSinkOption,
+} from './audit.js';
+
+// Re-export log helpers
+export {
+  apiKeyLogBindings,
+  apiKeyRedactPaths,
+  createRedactionCensor,
+  createRequestRedactor,
+} from './logging.js';
+export type { LogBindingsOptions } from './logging.js';
+
+// Re-export OpenAPI helpers
+export { apiKeySecurityRequirements, apiKeySecuritySchemes } from './openapi.js';
+export type { ApiKeySecurityRequirement, ApiKeySecurityScheme } from './openapi.js';
+
+// Re-export request signing
+export {
+  InMemoryNonceStore,
+  SIGNED_URL_PARAMETERS,
+  canonicalizeRequest,
+  createSignedUrl,
+  signRequest,
+} from './signing.js';
+export type {
+  CanonicalRequest,
+  NonceStore,
+  RequestSigningOptions,
+  SignRequestOptions,
+  SignatureHeaderNames,
+  SignedUrlOptions,
+} from './signing.js';
+
+// Re-export key stores
+export { InMemoryApiKeyStore, createApiKey, validateFromStore } from './store.js';
+export { FileApiKeyStore } from './file-store.js';
+export type { ApiKeyFile, ApiKeyFileEntry, FileApiKeyStoreOptions } from './file-store.js';
+export type {
+  ApiKeyRecord,
+  ApiKeyStore,
+  CreateApiKeyOptions,
+  CreateApiKeyRecord,
+  UpdateApiKeyRecord,
+  ValidateFromStoreOptions,
+} from './store.js';
+
+// Re-export environment key loader
+export { keysFromEnv } from './env.js';
+export type { EnvApiKey, KeysFromEnvOptions } from './env.js';
+
+// Re-export admin routes
+export { fastifyApiKeyAdmin } from './admin.js';
+export type { ApiKeyAdminOptions } from './admin.js';
+
+// Re-export key hashing
+export { hashApiKey, isApiKeyHash, verifyApiKey } from './hashing.js';
+export type {
+  ApiKeyHashAlgorithm,
+  ApiKeyHashOptions,
+  ApiKeyVerification,
+  ScryptParams,
+} from './hashing.js';
 
 // Default export: wrapped plugin
 export default fp<FastifyApiKeyOptions>(fastifyApiKeyPlugin, {
@@ -0,0 +1,134 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Components of a structured API key (`<prefix>_<keyId>_<secret>_<checksum>`)
+ */
+export interface ParsedApiKey {
+  /** Key prefix (e.g. "sk_live"), may be empty */
+  prefix: string;
+  /** Public key identifier, safe to store and log */
+  keyId: string;
+  /** Secret part of the key */
+  secret: string;
+  /** CRC32 checksum of the rest of the key (8 hex characters) */
+  checksum: string;
+}
+
+/**
+ * Options for generating structured API keys
+ */
+export interface StructuredApiKeyOptions {
+  /** Key prefix (e.g. "sk_live") */
+  prefix?: string;
+  /**
+   * Length of the key ID
+   * @default 12
+   */
+  keyIdLength?: number;
+  /**
+   * Length of the secret
+   * @default 32
+   */
+  secretLength?: number;
+}
+
+/**
+ * Options for parsing structured API keys
+ */
+export interface ParseApiKeyOptions {
+  /** Accepted prefixes (any prefix is accepted when omitted) */
+  prefixes?: string[] | undefined;
+}
+
+/**
+ * A freshly generated structured API key
+ */
+export interface StructuredApiKey {
+  /** The full key, to be handed to the client */
+  key: string;
+  /** Public key identifier */
+  keyId: string;
+}
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ALPHANUMERIC = /^[A-Za-z0-9]+$/;
+const CHECKSUM = /^[0-9a-f]{8}$/;
+
+const CRC32_TABLE = ((): Uint32Array => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Generate a structured API key of the form `<prefix>_<keyId>_<secret>_<checksum>`
+ */
+export function generateStructuredApiKey(options: StructuredApiKeyOptions = {}): StructuredApiKey {
+  const { prefix = '', keyIdLength = 12, secretLength = 32 } = options;
+  const keyId = randomBase62(keyIdLength);
+  const body = [prefix, keyId, randomBase62(secretLength)].filter(Boolean).join('_');
+  return { key: `${body}_${checksum(body)}`, keyId };
+}
+
+/**
+ * Parse a structured API key.
+ *
+ * Returns null for malformed keys, keys with a bad checksum and keys whose
+ * prefix is not in `options.prefixes`.
+ */
+export function parseApiKey(key: string, options: ParseApiKeyOptions = {}): ParsedApiKey | null {
+  if (typeof key !== 'string') {
+    return null;
+  }
+
+  const parts = key.split('_');
+  if (parts.length < 3) {
+    return null;
+  }
+
+  const crc = parts.pop() ?? '';
+  const secret = parts.pop() ?? '';
+  const keyId = parts.pop() ?? '';
+  const prefix = parts.join('_');
+
+  if (!CHECKSUM.test(crc) || !ALPHANUMERIC.test(secret) || !ALPHANUMERIC.test(keyId)) {
+    return null;
+  }
+
+  if (options.prefixes && !options.prefixes.includes(prefix)) {
+    return null;
+  }
+
+  if (checksum(key.slice(0, key.length - crc.length - 1)) !== crc) {
+    return null;
+  }
+
+  return { prefix, keyId, secret, checksum: crc };
+}
+
+function checksum(value: string): string {
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(value)) {
+    crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+function randomBase62(length: number): string {
+  let result = '';
+  while (result.length < length) {
+    for (const byte of randomBytes(length)) {
+      // Reject bytes that would bias the distribution (248 = 62 * 4)
+      if (byte < 248 && result.length < length) {
+        result += BASE62.charAt(byte % 62);
+      }
+    }
+  }
+  return result;
+}
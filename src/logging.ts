@@ -0,0 +1,159 @@
+import type { ApiKeyData, ApiKeySource } from './types.js';
+
+/**
+ * Options for the key bindings of `request.log`
+ */
+export interface LogBindingsOptions {
+  /** Metadata fields bound along with the key ID and fingerprint, e.g. `['tenantId']` */
+  metadata?: string[];
+}
+
+/** Replacement of redacted values */
+const CENSORED = '[Redacted]';
+
+/**
+ * Pino redaction paths covering the key in each source, as serialized under `req`, e.g.
+ * for the `redact` option of loggers the plugin does not cover
+ */
+export function apiKeyRedactPaths(sources: ApiKeySource[]): string[] {
+  const paths = new Set<string>();
+  for (const source of sources) {
+    const name = JSON.stringify(source.type === 'header' ? source.name.toLowerCase() : source.name);
+    switch (source.type) {
+      case 'header':
+        paths.add(`req.headers[${name}]`);
+        break;
+      case 'query':
+        paths.add(`req.query[${name}]`);
+        // The query string is masked by the censor, keeping the rest of the URL
+        paths.add('req.url');
+        break;
+      case 'body':
+        paths.add(`req.body[${name}]`);
+        break;
+      case 'cookie':
+        paths.add(`req.cookies[${name}]`);
+        paths.add('req.headers.cookie');
+        break;
+    }
+  }
+  return [...paths];
+}
+
+/**
+ * Pino redaction censor masking query parameters of URLs and replacing anything else
+ */
+export function createRedactionCensor(
+  sources: ApiKeySource[]
+): (value: unknown, path: string[]) => unknown {
+  const names = new Set(
+    sources.filter((source) => source.type === 'query').map((source) => source.name)
+  );
+
+  return (value, path) => {
+    if (path[path.length - 1] === 'url' && typeof value === 'string') {
+      return maskQuery(value, names);
+    }
+    return CENSORED;
+  };
+}
+
+/**
+ * Redaction of serialized requests (`req` in request logs): values of the sources are
+ * replaced and their query parameters masked in `url`. Changed objects are copied.
+ */
+export function createRequestRedactor(sources: ApiKeySource[]): (req: unknown) => unknown {
+  const censor = createRedactionCensor(sources);
+  const fields: Record<'headers' | 'query' | 'body' | 'cookies', Set<string>> = {
+    headers: new Set(),
+    query: new Set(),
+    body: new Set(),
+    cookies: new Set(),
+  };
+  for (const source of sources) {
+    switch (source.type) {
+      case 'header':
+        fields.headers.add(source.name.toLowerCase());
+        break;
+      case 'query':
+        fields.query.add(source.name);
+        break;
+      case 'body':
+        fields.body.add(source.name);
+        break;
+      case 'cookie':
+        fields.cookies.add(source.name);
+        fields.headers.add('cookie');
+        break;
+    }
+  }
+
+  return (req) => {
+    if (!isRecord(req)) {
+      return req;
+    }
+    const redacted: Record<string, unknown> = { ...req };
+    for (const [field, names] of Object.entries(fields)) {
+      const value = redacted[field];
+      if (isRecord(value) && Object.keys(value).some((name) => names.has(name))) {
+        redacted[field] = Object.fromEntries(
+          Object.entries(value).map(([name, item]) => [name, names.has(name) ? CENSORED : item])
+        );
+      }
+    }
+    if (fields.query.size > 0 && typeof redacted.url === 'string') {
+      redacted.url = censor(redacted.url, ['req', 'url']);
+    }
+    return redacted;
+  };
+}
+
+/**
+ * Bindings added to `request.log` after a successful guard
+ */
+export function apiKeyLogBindings(
+  data: ApiKeyData,
+  options: LogBindingsOptions = {}
+): { apiKey: Record<string, unknown> } {
+  const bindings: Record<string, unknown> = {};
+  for (const field of options.metadata ?? []) {
+    if (data.metadata[field] !== undefined) {
+      bindings[field] = data.metadata[field];
+    }
+  }
+  // Metadata never shadows the key identity
+  if (data.keyId !== undefined) {
+    bindings.id = data.keyId;
+  }
+  bindings.fingerprint = data.fingerprint;
+  return { apiKey: bindings };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Parameter names are compared decoded, as the query parser decodes them
+function maskQuery(url: string, names: Set<string>): string {
+  const start = url.indexOf('?');
+  if (start === -1 || names.size === 0) {
+    return url;
+  }
+  const end = url.indexOf('#', start);
+  const query = url.slice(start + 1, end === -1 ? undefined : end);
+
+  const masked = query.split('&').map((parameter) => {
+    const separator = parameter.indexOf('=');
+    const rawName = separator === -1 ? parameter : parameter.slice(0, separator);
+    return names.has(decodeQueryComponent(rawName)) ? `${rawName}=${CENSORED}` : parameter;
+  });
+  return `${url.slice(0, start + 1)}${masked.join('&')}${end === -1 ? '' : url.slice(end)}`;
+}
+
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
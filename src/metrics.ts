@@ -0,0 +1,143 @@
+/**
+ * Authentication outcome counted by the metrics
+ */
+export type ApiKeyAuthOutcome =
+  | 'success'
+  | 'missing'
+  | 'invalid'
+  | 'expired'
+  | 'revoked'
+  | 'insufficient_scopes'
+  | 'rate_limited'
+  | 'forbidden';
+
+/**
+ * Options for authentication metrics
+ */
+export interface ApiKeyMetricsOptions {
+  /**
+   * Mount a GET route serving the metrics at this path. The route opts out of
+   * `protectRoutes`; guard it some other way if it must not be public.
+   */
+  route?: string;
+  /**
+   * Metric name prefix
+   * @default 'api_key_'
+   */
+  prefix?: string;
+  /**
+   * Upper bounds (seconds) of the validation latency histogram buckets
+   * @default [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+   */
+  buckets?: number[];
+}
+
+/**
+ * Authentication counters and validation latency histogram
+ */
+export interface ApiKeyMetrics {
+  /** Count an authentication outcome */
+  recordOutcome(outcome: ApiKeyAuthOutcome, route: string, source: string): void;
+  /** Record the duration of a `validate` call, in seconds */
+  observeValidation(seconds: number): void;
+  /** Metrics in Prometheus text exposition format */
+  getMetrics(): string;
+  /** Reset all metrics */
+  reset(): void;
+}
+
+/** Content type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+const OUTCOMES_BY_ERROR_CODE: Record<string, ApiKeyAuthOutcome> = {
+  MISSING_API_KEY: 'missing',
+  INVALID_API_KEY: 'invalid',
+  EXPIRED_API_KEY: 'expired',
+  REVOKED_API_KEY: 'revoked',
+  EXPIRED_SIGNED_URL: 'expired',
+  INSUFFICIENT_SCOPES: 'insufficient_scopes',
+  RATE_LIMIT_EXCEEDED: 'rate_limited',
+  IP_NOT_ALLOWED: 'forbidden',
+  ORIGIN_NOT_ALLOWED: 'forbidden',
+};
+
+/**
+ * Map an `ApiKeyError` code to the outcome it is counted as
+ */
+export function outcomeFromErrorCode(code: string): ApiKeyAuthOutcome {
+  return OUTCOMES_BY_ERROR_CODE[code] ?? 'invalid';
+}
+
+/**
+ * Create in-memory authentication metrics
+ */
+export function createApiKeyMetrics(options: ApiKeyMetricsOptions = {}): ApiKeyMetrics {
+  const { prefix = 'api_key_', buckets: bucketOptions = DEFAULT_BUCKETS } = options;
+  const buckets = [...bucketOptions].sort((a, b) => a - b);
+
+  const counters = new Map<string, { labels: string; value: number }>();
+  let bucketCounts = buckets.map(() => 0);
+  let count = 0;
+  let sum = 0;
+
+  return {
+    recordOutcome(outcome: ApiKeyAuthOutcome, route: string, source: string): void {
+      const labels = formatLabels({ outcome, route, source });
+      const counter = counters.get(labels);
+      if (counter) {
+        counter.value++;
+      } else {
+        counters.set(labels, { labels, value: 1 });
+      }
+    },
+
+    observeValidation(seconds: number): void {
+      count++;
+      sum += seconds;
+      buckets.forEach((bound, index) => {
+        if (seconds <= bound) {
+          bucketCounts[index] = (bucketCounts[index] ?? 0) + 1;
+        }
+      });
+    },
+
+    getMetrics(): string {
+      const authName = `${prefix}auth_requests_total`;
+      const latencyName = `${prefix}validation_duration_seconds`;
+      const lines = [
+        `# HELP ${authName} API key authentication outcomes`,
+        `# TYPE ${authName} counter`,
+        ...[...counters.values()].map(
+          ({ labels, value }) => `${authName}${labels} ${String(value)}`
+        ),
+        `# HELP ${latencyName} Duration of API key validation`,
+        `# TYPE ${latencyName} histogram`,
+        ...buckets.map(
+          (bound, index) =>
+            `${latencyName}_bucket{le="${String(bound)}"} ${String(bucketCounts[index] ?? 0)}`
+        ),
+        `${latencyName}_bucket{le="+Inf"} ${String(count)}`,
+        `${latencyName}_sum ${String(sum)}`,
+        `${latencyName}_count ${String(count)}`,
+      ];
+      return `${lines.join('\n')}\n`;
+    },
+
+    reset(): void {
+      counters.clear();
+      bucketCounts = buckets.map(() => 0);
+      count = 0;
+      sum = 0;
+    },
+  };
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,280 @@
+import type { FastifyInstance, FastifySchema } from 'fastify';
+import type { ApiKeyGuardOptions, ApiKeySource } from './types.js';
+import { compileScopeExpression, formatScopeExpression } from './scope-expression.js';
+import { findGuardOptions } from './route-protection.js';
+
+/**
+ * OpenAPI security scheme of an API key source
+ */
+export type ApiKeySecurityScheme =
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string; description?: string }
+  | { type: 'http'; scheme: 'bearer'; description?: string };
+
+/**
+ * OpenAPI security requirement: scheme name to scopes
+ */
+export type ApiKeySecurityRequirement = Record<string, string[]>;
+
+/**
+ * Options of the OpenAPI integration
+ */
+export interface ApiKeyOpenApiOptions {
+  /** Sources the schemes are derived from */
+  sources: ApiKeySource[];
+  /** Default of `allowAnonymous` for guards */
+  allowAnonymous: boolean;
+  /** Whether a global rate limit is configured */
+  rateLimited: boolean;
+  /** Key ID header of signed requests, when signing is configured */
+  signatureHeader?: string | undefined;
+  /** Key ID query parameter of signed URLs, when signing is configured */
+  signedUrlParameter?: string | undefined;
+}
+
+/** Scheme of signed requests, identified by their key ID header */
+const SIGNATURE_SCHEME = 'ApiKeySignature';
+
+/** Scheme of signed URLs, identified by their key ID parameter */
+const SIGNED_URL_SCHEME = 'ApiKeySignedUrl';
+
+/** Operation extension carrying what the plugin adds to the document */
+const EXTENSION = 'x-fastify-api-key';
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const ERROR_PROPERTIES = {
+  error: { type: 'string', description: 'Error code, e.g. INVALID_API_KEY' },
+  message: { type: 'string' },
+  statusCode: { type: 'integer' },
+};
+
+// Bodies mirror `toJSON()` of the errors sent with each status code
+const UNAUTHORIZED_PROPERTIES = {
+  ...ERROR_PROPERTIES,
+  expiresAt: { type: 'string', format: 'date-time' },
+};
+const FORBIDDEN_PROPERTIES = {
+  ...ERROR_PROPERTIES,
+  requiredScopes: { type: 'array', items: { type: 'string' } },
+  providedScopes: { type: 'array', items: { type: 'string' } },
+  clause: { type: 'string' },
+};
+const RATE_LIMITED_PROPERTIES = { ...ERROR_PROPERTIES, retryAfter: { type: 'integer' } };
+
+/**
+ * Security schemes of the key sources, by scheme name. `Authorization` headers with a
+ * "Bearer " prefix map to HTTP bearer schemes; body sources have no OpenAPI equivalent.
+ */
+export function apiKeySecuritySchemes(
+  sources: ApiKeySource[]
+): Record<string, ApiKeySecurityScheme> {
+  const schemes: Record<string, ApiKeySecurityScheme> = {};
+  for (const { scheme, name } of namedSchemes(sources)) {
+    schemes[name] = scheme;
+  }
+  return schemes;
+}
+
+/**
+ * Security requirements of a guard: any scheme, with the scopes required by the guard.
+ * `anyScope` yields one requirement per scope; anonymous access adds an empty requirement.
+ */
+export function apiKeySecurityRequirements(
+  sources: ApiKeySource[],
+  guardOptions: ApiKeyGuardOptions,
+  allowAnonymous = false
+): ApiKeySecurityRequirement[] {
+  return requirementsOf(
+    namedSchemes(sources).map(({ name }) => name),
+    guardOptions,
+    allowAnonymous
+  );
+}
+
+/**
+ * Document guarded routes when @fastify/swagger is registered: the generated document
+ * gets the security schemes of the sources and, for each guarded route, its security
+ * requirements and 401/403/429 error responses. Routes are only marked at registration;
+ * the route schemas used at runtime are unchanged.
+ */
+export function documentApiKeyRoutes(
+  fastify: FastifyInstance,
+  options: ApiKeyOpenApiOptions
+): void {
+  const { sources, allowAnonymous, rateLimited, signatureHeader, signedUrlParameter } = options;
+  const schemeNames = namedSchemes(sources).map(({ name }) => name);
+
+  fastify.addHook('onRoute', (routeOptions) => {
+    const guardOptions = findGuardOptions(routeOptions.preHandler);
+    if (!guardOptions || !fastify.hasDecorator('swagger')) {
+      return;
+    }
+
+    const requires =
+      guardOptions.requires === undefined
+        ? ''
+        : ` (requires ${formatScopeExpression(compileScopeExpression(guardOptions.requires))})`;
+    const responses: Record<string, object> = {
+      401: errorResponse('API key missing, invalid, expired or revoked', UNAUTHORIZED_PROPERTIES),
+      403: errorResponse(
+        `API key lacks the required scopes or is not allowed from this IP or origin${requires}`,
+        FORBIDDEN_PROPERTIES
+      ),
+    };
+    if (
+      guardOptions.rateLimit !== false &&
+      (rateLimited || guardOptions.rateLimit?.limit !== undefined)
+    ) {
+      responses[429] = errorResponse('Rate limit of the API key exceeded', RATE_LIMITED_PROPERTIES);
+    }
+
+    // Copied, as schemas may be shared between routes
+    routeOptions.schema = {
+      ...routeOptions.schema,
+      [EXTENSION]: {
+        security: requirementsOf(
+          guardOptions.signed
+            ? [SIGNATURE_SCHEME]
+            : guardOptions.signedUrl
+              ? [SIGNED_URL_SCHEME]
+              : schemeNames,
+          guardOptions,
+          allowAnonymous
+        ),
+        responses,
+      },
+    } as FastifySchema;
+  });
+
+  fastify.addHook('onReady', async () => {
+    const instance = fastify as unknown as Record<string, unknown>;
+    const swagger = instance.swagger;
+    if (typeof swagger !== 'function') {
+      return;
+    }
+
+    const generate = swagger.bind(fastify) as (opts?: { yaml?: boolean }) => unknown;
+    // Loaded here, so apps without @fastify/swagger never pay for it
+    const { stringify } = await import('yaml');
+    instance.swagger = (opts?: { yaml?: boolean }): unknown => {
+      const document = generate() as Record<string, unknown>;
+      if (typeof document.openapi === 'string') {
+        addSecurity(document, {
+          ...apiKeySecuritySchemes(sources),
+          ...(signatureHeader && {
+            [SIGNATURE_SCHEME]: {
+              type: 'apiKey',
+              in: 'header',
+              name: signatureHeader,
+              description: 'Key ID of an HMAC-signed request',
+            },
+          }),
+          ...(signedUrlParameter && {
+            [SIGNED_URL_SCHEME]: {
+              type: 'apiKey',
+              in: 'query',
+              name: signedUrlParameter,
+              description: 'Key ID of a signed URL (see createSignedUrl)',
+            },
+          }),
+        });
+      }
+      // Serialized like @fastify/swagger does, as its own YAML is built without the schemes
+      return opts?.yaml ? stringify(document, { strict: false }) : document;
+    };
+  });
+}
+
+function requirementsOf(
+  schemeNames: string[],
+  guardOptions: ApiKeyGuardOptions,
+  allowAnonymous: boolean
+): ApiKeySecurityRequirement[] {
+  const scopes = guardOptions.scopes ?? [];
+  const alternatives = guardOptions.anyScope?.length
+    ? guardOptions.anyScope.map((scope) => [...scopes, scope])
+    : [scopes];
+
+  const requirements = schemeNames.flatMap((name) =>
+    alternatives.map((alternative) => ({ [name]: alternative }))
+  );
+  if (guardOptions.allowAnonymous ?? allowAnonymous) {
+    requirements.push({});
+  }
+  return requirements;
+}
+
+function namedSchemes(sources: ApiKeySource[]): { name: string; scheme: ApiKeySecurityScheme }[] {
+  const counts: Record<string, number> = {};
+  const named = [];
+
+  for (const source of sources) {
+    if (source.type === 'body') {
+      continue;
+    }
+
+    const bearer =
+      source.type === 'header' &&
+      source.name.toLowerCase() === 'authorization' &&
+      source.prefix?.trim().toLowerCase() === 'bearer';
+    const base = bearer ? 'ApiKeyBearer' : `ApiKey${capitalize(source.type)}`;
+    const count = (counts[base] = (counts[base] ?? 0) + 1);
+
+    named.push({
+      name: count === 1 ? base : `${base}${String(count)}`,
+      scheme: bearer
+        ? { type: 'http' as const, scheme: 'bearer' as const }
+        : { type: 'apiKey' as const, in: source.type, name: source.name },
+    });
+  }
+
+  return named;
+}
+
+function addSecurity(
+  document: Record<string, unknown>,
+  schemes: Record<string, ApiKeySecurityScheme>
+): void {
+  const components = (document.components ?? {}) as Record<string, unknown>;
+  // Copied, as the generator may share these objects with its options
+  document.components = {
+    ...components,
+    securitySchemes: { ...schemes, ...(components.securitySchemes as object | undefined) },
+  };
+
+  const paths = (document.paths ?? {}) as Record<string, Record<string, unknown> | undefined>;
+  for (const pathItem of Object.values(paths)) {
+    for (const method of METHODS) {
+      const operation = pathItem?.[method] as Record<string, unknown> | undefined;
+      const extension = operation?.[EXTENSION] as
+        | { security: ApiKeySecurityRequirement[]; responses: Record<string, unknown> }
+        | undefined;
+      if (!operation || !extension) {
+        continue;
+      }
+
+      // Whatever the route schema documents itself takes precedence
+      operation.security ??= extension.security;
+      operation.responses = {
+        ...extension.responses,
+        ...(operation.responses as object | undefined),
+      };
+      Reflect.deleteProperty(operation, EXTENSION);
+    }
+  }
+}
+
+function errorResponse(description: string, properties: object): object {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: { type: 'object', required: ['error', 'message', 'statusCode'], properties },
+      },
+    },
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
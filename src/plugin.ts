@@ -1,53 +1,346 @@
-import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type {
+  FastifyInstance,
+  FastifyRequest,
+  FastifyReply,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
 import type { FastifyApiKeyOptions, ApiKeyGuardOptions, ApiKeyData } from './types.js';
-import { extractApiKey } from './extractors.js';
+import { extractApiKeyWithSource } from './extractors.js';
 import { validateScopes } from './validators.js';
-import { MissingApiKeyError, InvalidApiKeyError, InsufficientScopesError } from './errors.js';
+import { parseApiKey } from './key-format.js';
+import {
+  compileScopeExpression,
+  evaluateScopeExpression,
+  formatScopeExpression,
+} from './scope-expression.js';
+import { createApiKeyCache } from './cache.js';
+import { validateFromStore } from './store.js';
+import {
+  InMemoryRateLimitStore,
+  buildRateLimitHeaders,
+  resolveRateLimitPolicy,
+} from './rate-limit.js';
+import { createRevocationList } from './revocation.js';
+import { createUsageTracker } from './usage.js';
+import { createAuditLog } from './audit.js';
+import { apiKeyLogBindings, createRequestRedactor } from './logging.js';
+import {
+  decisionChannel,
+  extractChannel,
+  scopeCheckChannel,
+  validateChannel,
+  type ApiKeyDecisionMessage,
+  type ApiKeyExtractMessage,
+  type ApiKeyScopeCheckMessage,
+  type ApiKeyTraceContext,
+} from './diagnostics.js';
+import {
+  PROMETHEUS_CONTENT_TYPE,
+  createApiKeyMetrics,
+  outcomeFromErrorCode,
+  type ApiKeyAuthOutcome,
+} from './metrics.js';
+import { digestApiKey, fingerprintApiKey, maskApiKey } from './utils.js';
+import { isIpAllowed, isOriginAllowed } from './restrictions.js';
+import { markGuard, protectRoutes } from './route-protection.js';
+import { documentApiKeyRoutes } from './openapi.js';
+import { SIGNED_URL_PARAMETERS, createRequestVerifier } from './signing.js';
+import {
+  ApiKeyError,
+  MissingApiKeyError,
+  InvalidApiKeyError,
+  InsufficientScopesError,
+  RateLimitExceededError,
+  ExpiredApiKeyError,
+  RevokedApiKeyError,
+  IpNotAllowedError,
+  OriginNotAllowedError,
+  InvalidSignatureError,
+} from './errors.js';
 
 const DEFAULT_SOURCES = [{ type: 'header' as const, name: 'X-API-Key' }];
 
+/** Serializers of pino loggers, registered globally by pino */
+const PINO_SERIALIZERS = Symbol.for('pino.serializers');
+
+type Serializers = Record<string, ((value: unknown) => unknown) | undefined>;
+
 export async function fastifyApiKeyPlugin(
   fastify: FastifyInstance,
   options: FastifyApiKeyOptions
 ): Promise<void> {
   const {
     sources = DEFAULT_SOURCES,
-    validate,
+    store,
+    validate = store ? validateFromStore(store) : undefined,
     errorHandler,
     decoratorName = 'apiKey',
     allowAnonymous = false,
     onValidation,
     timingSafe = true,
+    redactKey = timingSafe,
+    fingerprintSecret,
+    hintPrefixes = [],
+    structuredKeys = false,
+    cache: cacheOptions = false,
+    rateLimit: rateLimitOptions = {},
+    rateLimitHeaders = false,
+    clockSkewTolerance = 0,
+    scopeMatcher,
+    protectRoutes: protectRoutesOptions = false,
+    revocations: revocationOptions,
+    usage: usageOptions,
+    metrics: metricsOptions = false,
+    audit: auditOptions = false,
+    redactLogs = true,
+    logBindings = false,
+    openapi = true,
+    signing,
   } = options;
 
+  if (!validate) {
+    throw new Error('fastify-api-key requires a validate function or a store');
+  }
+
+  if (!fingerprintSecret) {
+    fastify.log.warn(
+      'fastify-api-key: fingerprintSecret is not set, so key fingerprints in logs, audit ' +
+        'events, usage records and diagnostics are unkeyed digests that guessed keys can be ' +
+        'checked against offline'
+    );
+  }
+
+  if (store?.start) {
+    await store.start(fastify.log);
+  }
+  if (store?.close) {
+    const closeStore = store.close.bind(store);
+    fastify.addHook('onClose', async () => {
+      await closeStore();
+    });
+  }
+
+  const keyPrefixes = typeof structuredKeys === 'object' ? structuredKeys.prefixes : undefined;
+
+  const cache = cacheOptions
+    ? createApiKeyCache(cacheOptions === true ? {} : cacheOptions)
+    : undefined;
+
+  const revocations = createRevocationList(revocationOptions);
+  const isRevoked = (id: string | undefined): boolean =>
+    id !== undefined && revocations.isRevoked(id) !== undefined;
+
+  // Keys authenticated per request, recorded on response
+  const usage = usageOptions ? createUsageTracker(usageOptions, fastify.log) : undefined;
+  const usageKeys = new WeakMap<FastifyRequest, string>();
+
+  const { store: rateLimitStore = new InMemoryRateLimitStore(), ...globalRateLimit } =
+    rateLimitOptions;
+
+  const metrics = metricsOptions
+    ? createApiKeyMetrics(metricsOptions === true ? {} : metricsOptions)
+    : undefined;
+  const metricsRoute = typeof metricsOptions === 'object' ? metricsOptions.route : undefined;
+  // Route, source and key identifiers of each guarded request, for metrics and diagnostics
+  const traceContexts = new WeakMap<FastifyRequest, ApiKeyTraceContext>();
+  const recordOutcome = (
+    outcome: ApiKeyAuthOutcome | 'anonymous',
+    request: FastifyRequest,
+    errorCode?: string
+  ): void => {
+    const context = traceContexts.get(request);
+    if (metrics && outcome !== 'anonymous') {
+      metrics.recordOutcome(
+        outcome,
+        request.routeOptions.url ?? 'unknown',
+        context?.source ?? 'none'
+      );
+    }
+    if (context && decisionChannel.hasSubscribers) {
+      decisionChannel.publish({ ...context, outcome, errorCode } satisfies ApiKeyDecisionMessage);
+    }
+  };
+
+  const audit = createAuditLog(
+    auditOptions ? (auditOptions === true ? {} : auditOptions) : { sinks: [] },
+    fastify.log,
+    (request) => traceContexts.get(request)
+  );
+
+  if (redactLogs) {
+    // Signed URLs are credentials until they expire
+    const redactedSources = signing
+      ? [...sources, { type: 'query' as const, name: SIGNED_URL_PARAMETERS.signature }]
+      : sources;
+    const redactRequest = createRequestRedactor(redactedSources);
+    const childLoggerFactory = fastify.childLoggerFactory;
+    fastify.setChildLoggerFactory(function (logger, bindings, childOptions, rawRequest) {
+      // Serializers run before the server logger's `redact`, which children keep
+      const serializers = (logger as unknown as Record<symbol, Serializers | undefined>)[
+        PINO_SERIALIZERS
+      ];
+      const serialize = childOptions.serializers?.req ?? serializers?.req;
+      return childLoggerFactory.call(
+        this,
+        logger,
+        bindings,
+        {
+          ...childOptions,
+          serializers: {
+            ...childOptions.serializers,
+            req: (req: unknown) => redactRequest(serialize ? serialize(req) : req),
+          },
+        },
+        rawRequest
+      );
+    });
+  }
+  const logBindingsOptions = logBindings === true ? {} : logBindings;
+
+  const verifier = signing ? createRequestVerifier(signing) : undefined;
+  if (verifier) {
+    fastify.addHook('preParsing', verifier.digestBody);
+  }
+
   // Decorate request with undefined as initial value
   fastify.decorateRequest(decoratorName, undefined);
   fastify.decorateRequest('apiKeyScopes', undefined);
 
+  const fail = async (
+    error: ApiKeyError,
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> => {
+    recordOutcome(outcomeFromErrorCode(error.code), request, error.code);
+    if (error instanceof InsufficientScopesError) {
+      audit.emit('scope.denied', request, {
+        reason: error.code,
+        details: {
+          missing: error.requiredScopes,
+          granted: error.providedScopes,
+          ...(error.clause === undefined ? {} : { clause: error.clause }),
+        },
+      });
+    } else {
+      audit.emit('auth.failure', request, { reason: error.code });
+    }
+    if (errorHandler) {
+      await errorHandler(error, request, reply);
+      return;
+    }
+    throw error;
+  };
+
   // Create guard factory
-  const createGuard = (
-    guardOptions: ApiKeyGuardOptions = {}
-  ): ((request: FastifyRequest, reply: FastifyReply) => Promise<void>) => {
-    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+  const createGuard = (guardOptions: ApiKeyGuardOptions = {}): preHandlerAsyncHookHandler => {
+    // Parse scope expressions once, at route registration
+    const requirement =
+      guardOptions.requires === undefined
+        ? undefined
+        : compileScopeExpression(guardOptions.requires);
+
+    if ((guardOptions.signed || guardOptions.signedUrl) && !verifier) {
+      throw new Error('fastify-api-key requires the signing option for signed routes');
+    }
+    const signer = guardOptions.signed
+      ? verifier?.request
+      : guardOptions.signedUrl
+        ? verifier?.url
+        : undefined;
+
+    const guard = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
       const shouldAllowAnonymous = guardOptions.allowAnonymous ?? allowAnonymous;
 
-      // 1. Extract API key
-      const key = extractApiKey(request, sources);
+      // 1. Extract API key (the key ID of signed requests and URLs)
+      const credentials = signer?.read(request);
+      const extracted = signer
+        ? credentials && { key: credentials.keyId, source: signer.source }
+        : extractApiKeyWithSource(request, sources);
+      const key = extracted?.key;
+      const fingerprint = key ? fingerprintApiKey(key, fingerprintSecret) : undefined;
+      const trace: ApiKeyTraceContext = {
+        route: request.routeOptions.url ?? 'unknown',
+        method: request.method,
+        requestId: request.id,
+        source: extracted?.source.type,
+        fingerprint,
+      };
+      traceContexts.set(request, trace);
+      if (extractChannel.hasSubscribers) {
+        extractChannel.publish({ ...trace, found: Boolean(key) } satisfies ApiKeyExtractMessage);
+      }
 
-      if (!key) {
+      if (!key || fingerprint === undefined) {
         if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
           return;
         }
-        const error = new MissingApiKeyError();
-        if (errorHandler) {
-          await errorHandler(error, request, reply);
+        await fail(new MissingApiKeyError(), request, reply);
+        return;
+      }
+
+      // Reject malformed structured keys before they reach the validator
+      const parsedKey =
+        structuredKeys && !signer ? parseApiKey(key, { prefixes: keyPrefixes }) : null;
+      if (structuredKeys && !signer && !parsedKey) {
+        if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
+          return;
+        }
+        await fail(new InvalidApiKeyError('Malformed API key'), request, reply);
+        return;
+      }
+
+      // Revocations bypass the cache and the validator
+      const knownKeyId = parsedKey?.keyId ?? credentials?.keyId;
+      if (revocations.size > 0 && (isRevoked(fingerprint) || isRevoked(knownKeyId))) {
+        if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
+          return;
+        }
+        await fail(new RevokedApiKeyError(), request, reply);
+        return;
+      }
+
+      // Signature format, timestamp and expiry are checked before the validator is called
+      const signatureError = credentials && signer?.check(credentials, Date.now());
+      if (signatureError) {
+        if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
           return;
         }
-        throw error;
+        await fail(signatureError, request, reply);
+        return;
       }
 
-      // 2. Validate API key
-      const result = await validate(key, request);
+      // 2. Validate API key (signed requests and URLs are never cached)
+      const validator = signer?.validate ?? validate;
+      let result = signer ? undefined : cache?.get(key);
+      if (!result) {
+        const startedAt = performance.now();
+        if (validateChannel.start.hasSubscribers) {
+          // Signing secrets are kept out of the published result
+          const secrets: { signingSecret?: string | undefined } = {};
+          const published = await validateChannel.tracePromise(
+            async () => {
+              const { signingSecret, ...rest } = await validator(key, request);
+              secrets.signingSecret = signingSecret;
+              return rest;
+            },
+            { ...trace }
+          );
+          result =
+            secrets.signingSecret === undefined
+              ? published
+              : { ...published, signingSecret: secrets.signingSecret };
+        } else {
+          result = await validator(key, request);
+        }
+        metrics?.observeValidation((performance.now() - startedAt) / 1000);
+        if (!signer) {
+          cache?.set(key, result);
+        }
+      }
 
       // Call validation hook
       if (onValidation) {
@@ -56,50 +349,244 @@ export async function fastifyApiKeyPlugin(
 
       if (!result.valid) {
         if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
+          return;
+        }
+        await fail(
+          result.revoked ? new RevokedApiKeyError() : new InvalidApiKeyError(result.errorMessage),
+          request,
+          reply
+        );
+        return;
+      }
+
+      // Nonces are only recorded for authentic requests, so forged ones cannot burn them
+      if (signer && credentials) {
+        const signatureFailure =
+          result.signingSecret === undefined
+            ? new InvalidSignatureError()
+            : await signer.verify(request, credentials, result.signingSecret, Date.now());
+        if (signatureFailure) {
+          if (shouldAllowAnonymous) {
+            recordOutcome('anonymous', request);
+            return;
+          }
+          await fail(signatureFailure, request, reply);
+          return;
+        }
+      }
+
+      const keyId = result.keyId ?? knownKeyId;
+      const now = Date.now();
+      trace.keyId = keyId;
+
+      if (isRevoked(result.keyId)) {
+        if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
           return;
         }
-        const error = new InvalidApiKeyError(result.errorMessage);
-        if (errorHandler) {
-          await errorHandler(error, request, reply);
+        await fail(new RevokedApiKeyError(), request, reply);
+        return;
+      }
+
+      // Reject expired keys (unparseable dates count as expired)
+      const expiresAt = result.expiresAt === undefined ? undefined : new Date(result.expiresAt);
+      if (expiresAt && !(expiresAt.getTime() + clockSkewTolerance > now)) {
+        if (shouldAllowAnonymous) {
+          recordOutcome('anonymous', request);
           return;
         }
-        throw error;
+        await fail(new ExpiredApiKeyError(expiresAt), request, reply);
+        return;
+      }
+
+      // Enforce per-key network restrictions
+      if (result.allowedIps?.length && !isIpAllowed(request.ip, result.allowedIps)) {
+        await fail(new IpNotAllowedError(), request, reply);
+        return;
       }
 
-      // 3. Validate scopes
-      const providedScopes = result.scopes ?? [];
+      if (result.allowedOrigins?.length) {
+        const origin = request.headers.origin;
+        const referer = guardOptions.requireOrigin ? undefined : request.headers.referer;
+
+        if (guardOptions.requireOrigin && !origin) {
+          await fail(
+            new OriginNotAllowedError('Origin header is required for this API key'),
+            request,
+            reply
+          );
+          return;
+        }
+
+        // Requests without Origin or Referer (e.g. server-to-server) are not restricted
+        const source = origin ?? referer;
+        if (source && !isOriginAllowed(source, result.allowedOrigins)) {
+          await fail(new OriginNotAllowedError(), request, reply);
+          return;
+        }
+      }
+
+      // 3. Enforce rate limit
+      let rateLimit = result.rateLimit;
+      const routeRateLimit = guardOptions.rateLimit;
+      const rateLimitPolicy =
+        routeRateLimit === false
+          ? null
+          : resolveRateLimitPolicy(globalRateLimit, result.rateLimitPolicy, routeRateLimit);
+
+      let retryAfter = 0;
+
+      if (rateLimitPolicy) {
+        const identity = keyId ?? digestApiKey(key);
+        const counterId = routeRateLimit
+          ? `${identity}:${request.method}:${request.routeOptions.url ?? request.url}`
+          : identity;
+        const decision = await rateLimitStore.consume(counterId, rateLimitPolicy, now);
+        rateLimit = { limit: decision.limit, remaining: decision.remaining, reset: decision.reset };
+        retryAfter = decision.allowed ? 0 : decision.retryAfter;
+      }
+
+      // Headers are set before any error so they also reach error replies
+      if (rateLimitHeaders && rateLimit) {
+        reply.headers(buildRateLimitHeaders(rateLimitHeaders, rateLimit, rateLimitPolicy, now));
+        if (retryAfter > 0) {
+          reply.header('retry-after', String(retryAfter));
+        }
+      }
+
+      if (retryAfter > 0) {
+        await fail(new RateLimitExceededError(retryAfter), request, reply);
+        return;
+      }
+
+      // 4. Validate scopes (signed URLs are restricted to the scopes they carry)
+      const keyScopes = result.scopes ?? [];
+      const urlScopes = credentials?.scopes;
+      const scopeDown = urlScopes && validateScopes(keyScopes, urlScopes, undefined, scopeMatcher);
+      if (scopeDown && !scopeDown.valid) {
+        await fail(new InsufficientScopesError(scopeDown.missing ?? [], keyScopes), request, reply);
+        return;
+      }
+      const providedScopes = urlScopes ?? keyScopes;
       const scopeResult = validateScopes(
         providedScopes,
         guardOptions.scopes,
-        guardOptions.anyScope
+        guardOptions.anyScope,
+        scopeMatcher
       );
 
+      const expressionResult =
+        scopeResult.valid && requirement
+          ? evaluateScopeExpression(requirement, providedScopes, scopeMatcher)
+          : undefined;
+
+      if (scopeCheckChannel.hasSubscribers) {
+        scopeCheckChannel.publish({
+          ...trace,
+          granted: providedScopes,
+          required: {
+            scopes: guardOptions.scopes,
+            anyScope: guardOptions.anyScope,
+            requires: requirement && formatScopeExpression(requirement),
+          },
+          passed: scopeResult.valid && (expressionResult?.valid ?? true),
+        } satisfies ApiKeyScopeCheckMessage);
+      }
+
       if (!scopeResult.valid) {
-        const error = new InsufficientScopesError(
-          guardOptions.scopes ?? guardOptions.anyScope ?? [],
-          providedScopes
+        await fail(
+          new InsufficientScopesError(scopeResult.missing ?? [], providedScopes),
+          request,
+          reply
         );
-        if (errorHandler) {
-          await errorHandler(error, request, reply);
-          return;
-        }
-        throw error;
+        return;
+      }
+
+      if (expressionResult?.failedClause) {
+        await fail(
+          new InsufficientScopesError(
+            expressionResult.missing ?? [],
+            providedScopes,
+            formatScopeExpression(expressionResult.failedClause)
+          ),
+          request,
+          reply
+        );
+        return;
       }
 
-      // 4. Populate request with API key data
+      // 5. Populate request with API key data
       const apiKeyData: ApiKeyData = {
-        key: timingSafe ? '[REDACTED]' : key,
+        key: redactKey ? '[REDACTED]' : key,
+        fingerprint,
+        hint: maskApiKey(key, { prefixes: [...hintPrefixes, ...(keyPrefixes ?? [])] }),
+        keyId,
         scopes: providedScopes,
-        rateLimit: result.rateLimit,
+        rateLimit,
+        expiresAt,
         metadata: result.metadata ?? {},
       };
 
       (request as unknown as Record<string, unknown>)[decoratorName] = apiKeyData;
       request.apiKeyScopes = providedScopes;
+      if (logBindingsOptions) {
+        request.log = request.log.child(apiKeyLogBindings(apiKeyData, logBindingsOptions));
+      }
+
+      if (usage) {
+        usageKeys.set(request, keyId ?? fingerprint);
+      }
+      recordOutcome('success', request);
+      audit.emit('auth.success', request);
     };
+
+    return markGuard(guard, guardOptions);
   };
 
   // Decorate instance
   fastify.decorate('apiKey', createGuard);
   fastify.decorate('requireApiKey', (scopes?: string[]) => createGuard({ scopes }));
+  fastify.decorate('apiKeyCache', cache ?? createApiKeyCache({ maxSize: 0 }));
+  fastify.decorate('apiKeyRevocations', revocations);
+  fastify.decorate('apiKeyMetrics', metrics ?? createApiKeyMetrics());
+  fastify.decorate('apiKeyAudit', audit);
+  fastify.addHook('onClose', async () => {
+    revocations.close();
+    await audit.close();
+  });
+
+  if (usage) {
+    fastify.addHook('onResponse', (request, reply, done) => {
+      const usageKey = usageKeys.get(request);
+      if (usageKey !== undefined) {
+        usage.record(usageKey, request.ip, reply.statusCode);
+      }
+      done();
+    });
+    fastify.addHook('onClose', async () => {
+      await usage.close();
+    });
+  }
+
+  if (metrics && metricsRoute) {
+    fastify.get(metricsRoute, { config: { apiKey: false } }, async (_request, reply) =>
+      reply.type(PROMETHEUS_CONTENT_TYPE).send(metrics.getMetrics())
+    );
+  }
+
+  if (protectRoutesOptions) {
+    protectRoutes(fastify, createGuard, protectRoutesOptions === true ? {} : protectRoutesOptions);
+  }
+
+  // After route protection, so that routes it guards are documented
+  if (openapi) {
+    documentApiKeyRoutes(fastify, {
+      sources,
+      allowAnonymous,
+      rateLimited: globalRateLimit.limit !== undefined,
+      signatureHeader: verifier?.request.source.name,
+      signedUrlParameter: verifier?.url.source.name,
+    });
+  }
 }
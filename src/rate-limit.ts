@@ -0,0 +1,239 @@
+/**
+ * Rate limiting algorithm
+ *
+ * - `sliding-window`: at most `limit` requests in any `window` milliseconds
+ * - `token-bucket`: bursts up to `limit`, refilled continuously at `limit` per `window`
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * Rate limit policy
+ */
+export interface RateLimitPolicy {
+  /** Maximum number of requests per window (bucket capacity for token-bucket) */
+  limit: number;
+  /** Window length in milliseconds */
+  window: number;
+  /** Algorithm used to count requests */
+  algorithm: RateLimitAlgorithm;
+}
+
+/**
+ * Outcome of consuming one request from a rate limit
+ */
+export interface RateLimitDecision {
+  /** Whether the request is allowed */
+  allowed: boolean;
+  /** Maximum requests allowed */
+  limit: number;
+  /** Remaining requests */
+  remaining: number;
+  /** Unix timestamp (seconds) when the limit is fully replenished */
+  reset: number;
+  /** Seconds until the next request will be allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Storage backend for rate limit counters
+ */
+export interface RateLimitStore {
+  /** Consume one request for `id` under `policy` at time `now` (ms) */
+  consume(
+    id: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): RateLimitDecision | Promise<RateLimitDecision>;
+  /** Forget all counters for `id` */
+  reset(id: string): void | Promise<void>;
+}
+
+/**
+ * Global rate limit options
+ */
+export interface RateLimitOptions extends Partial<RateLimitPolicy> {
+  /**
+   * Counter store
+   * @default new InMemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
+}
+
+interface SlidingWindowState {
+  type: 'sliding-window';
+  hits: number[];
+  expiresAt: number;
+}
+
+interface TokenBucketState {
+  type: 'token-bucket';
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+type RateLimitState = SlidingWindowState | TokenBucketState;
+
+const SWEEP_INTERVAL = 60_000;
+
+/**
+ * In-memory rate limit store, suitable for a single process
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly states = new Map<string, RateLimitState>();
+  private lastSweep = 0;
+
+  consume(id: string, policy: RateLimitPolicy, now: number): RateLimitDecision {
+    this.sweep(now);
+
+    return policy.algorithm === 'token-bucket'
+      ? this.consumeTokenBucket(id, policy, now)
+      : this.consumeSlidingWindow(id, policy, now);
+  }
+
+  reset(id: string): void {
+    this.states.delete(id);
+  }
+
+  private consumeSlidingWindow(
+    id: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): RateLimitDecision {
+    const { limit, window } = policy;
+    const existing = this.states.get(id);
+    const hits = existing?.type === 'sliding-window' ? existing.hits : [];
+
+    // Drop hits that have left the window
+    let expired = 0;
+    while (expired < hits.length && (hits[expired] ?? 0) <= now - window) {
+      expired++;
+    }
+    hits.splice(0, expired);
+
+    const allowed = hits.length < limit;
+    if (allowed) {
+      hits.push(now);
+    }
+
+    const oldest = hits[0] ?? now;
+    const newest = hits[hits.length - 1] ?? now;
+    this.states.set(id, { type: 'sliding-window', hits, expiresAt: newest + window });
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - hits.length),
+      reset: Math.ceil((newest + window) / 1000),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((oldest + window - now) / 1000)),
+    };
+  }
+
+  private consumeTokenBucket(id: string, policy: RateLimitPolicy, now: number): RateLimitDecision {
+    const { limit, window } = policy;
+    const refillRate = limit / window;
+    const existing = this.states.get(id);
+
+    let tokens = limit;
+    if (existing?.type === 'token-bucket') {
+      tokens = Math.min(limit, existing.tokens + (now - existing.updatedAt) * refillRate);
+    }
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    const fullAt = now + (limit - tokens) / refillRate;
+    this.states.set(id, { type: 'token-bucket', tokens, updatedAt: now, expiresAt: fullAt });
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil(fullAt / 1000),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / refillRate / 1000)),
+    };
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [id, state] of this.states) {
+      if (state.expiresAt <= now) {
+        this.states.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Merge global, per-key and per-route policies (later ones win).
+ * Returns null when no limit is configured at any level.
+ */
+export function resolveRateLimitPolicy(
+  ...policies: (Partial<RateLimitPolicy> | undefined)[]
+): RateLimitPolicy | null {
+  const merged: Partial<RateLimitPolicy> = {};
+  for (const policy of policies) {
+    if (policy?.limit !== undefined) {
+      merged.limit = policy.limit;
+    }
+    if (policy?.window !== undefined) {
+      merged.window = policy.window;
+    }
+    if (policy?.algorithm !== undefined) {
+      merged.algorithm = policy.algorithm;
+    }
+  }
+
+  if (merged.limit === undefined) {
+    return null;
+  }
+
+  return {
+    limit: merged.limit,
+    window: merged.window ?? 60_000,
+    algorithm: merged.algorithm ?? 'sliding-window',
+  };
+}
+
+/**
+ * Rate limit response header style
+ *
+ * - `legacy`: `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset` (Unix timestamp)
+ * - `standard`: IETF draft `RateLimit` and `RateLimit-Policy` fields (reset in seconds)
+ */
+export type RateLimitHeaderStyle = 'legacy' | 'standard';
+
+/**
+ * Build rate limit response headers
+ */
+export function buildRateLimitHeaders(
+  style: RateLimitHeaderStyle,
+  rateLimit: { limit: number; remaining: number; reset: number },
+  policy: RateLimitPolicy | null,
+  now: number
+): Record<string, string> {
+  const { limit, remaining, reset } = rateLimit;
+
+  if (style === 'legacy') {
+    return {
+      'x-ratelimit-limit': String(limit),
+      'x-ratelimit-remaining': String(remaining),
+      'x-ratelimit-reset': String(reset),
+    };
+  }
+
+  const headers: Record<string, string> = {
+    ratelimit: `limit=${String(limit)}, remaining=${String(remaining)}, reset=${String(Math.max(0, reset - Math.ceil(now / 1000)))}`,
+  };
+  if (policy) {
+    headers['ratelimit-policy'] =
+      `${String(policy.limit)};w=${String(Math.ceil(policy.window / 1000))}`;
+  }
+  return headers;
+}
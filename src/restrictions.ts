@@ -0,0 +1,111 @@
+import { BlockList, isIP } from 'node:net';
+
+const IPV4_MAPPED = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i;
+
+// Compiled lists, reused while the validator (or the cache) returns the same array
+const compiledIpLists = new WeakMap<readonly string[], BlockList>();
+
+/**
+ * Check whether an IP address matches any entry of an allowlist.
+ *
+ * Entries are IPv4 or IPv6 addresses or CIDR ranges (e.g. "10.0.0.0/8", "2001:db8::/32").
+ * IPv4-mapped IPv6 addresses are matched as IPv4, invalid entries never match.
+ */
+export function isIpAllowed(ip: string, allowedIps: readonly string[]): boolean {
+  const address = normalizeIp(ip);
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+
+  let list = compiledIpLists.get(allowedIps);
+  if (!list) {
+    list = compileIpList(allowedIps);
+    compiledIpLists.set(allowedIps, list);
+  }
+
+  return list.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function compileIpList(entries: readonly string[]): BlockList {
+  const list = new BlockList();
+
+  for (const entry of entries) {
+    const [rawAddress = '', prefix, ...rest] = entry.trim().split('/');
+    const address = normalizeIp(rawAddress);
+    const family = isIP(address);
+    if (!family || rest.length > 0) {
+      continue;
+    }
+
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+      continue;
+    }
+
+    const bits = Number(prefix);
+    if (prefix !== '' && Number.isInteger(bits) && bits >= 0 && bits <= (family === 6 ? 128 : 32)) {
+      list.addSubnet(address, bits, type);
+    }
+  }
+
+  return list;
+}
+
+function normalizeIp(ip: string): string {
+  const mapped = IPV4_MAPPED.exec(ip);
+  return mapped?.[1] ?? ip;
+}
+
+/**
+ * Check whether a web origin matches any allowed origin pattern.
+ *
+ * Patterns are full origins ("https://app.example.com"), wildcard subdomains
+ * ("https://*.example.com", which does not match the apex domain), either of those
+ * without a scheme to accept any scheme, or "*" to accept every origin.
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: readonly string[]): boolean {
+  const parsed = parseOrigin(origin);
+  if (!parsed) {
+    return false;
+  }
+
+  return allowedOrigins.some((pattern) => matchesOriginPattern(parsed, pattern.trim()));
+}
+
+function parseOrigin(value: string): { scheme: string; host: string } | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  return { scheme: url.protocol.slice(0, -1), host: url.host };
+}
+
+function matchesOriginPattern(origin: { scheme: string; host: string }, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+
+  const separator = pattern.indexOf('://');
+  const scheme = separator === -1 ? undefined : pattern.slice(0, separator).toLowerCase();
+  const hostPattern = (separator === -1 ? pattern : pattern.slice(separator + 3)).toLowerCase();
+
+  if (scheme !== undefined && scheme !== origin.scheme) {
+    return false;
+  }
+
+  if (hostPattern.startsWith('*.')) {
+    const suffix = hostPattern.slice(1);
+    return origin.host.endsWith(suffix) && origin.host.length > suffix.length;
+  }
+
+  return origin.host === hostPattern;
+}
@@ -0,0 +1,134 @@
+import { EventEmitter } from 'node:events';
+
+/**
+ * Revoked key, identified by key ID or fingerprint (see `fingerprintApiKey`)
+ */
+export interface RevocationEntry {
+  /** Key ID or fingerprint */
+  id: string;
+  /** Unix timestamp (ms) after which the entry is dropped, if any */
+  expiresAt?: number | undefined;
+  /** Free-form reason, e.g. "leaked in CI logs" */
+  reason?: string | undefined;
+}
+
+/**
+ * Transport used to share revocations between instances (e.g. Redis pub/sub)
+ */
+export interface RevocationBackend {
+  /** Broadcast a revocation to every subscriber, including this instance */
+  publish(entry: RevocationEntry): void | Promise<void>;
+  /** Listen for revocations, returns a function that stops listening */
+  subscribe(listener: (entry: RevocationEntry) => void): () => void;
+}
+
+/**
+ * Options for the revocation list
+ */
+export interface RevocationListOptions {
+  /**
+   * Backend shared with other instances
+   * @default a backend local to this list
+   */
+  backend?: RevocationBackend;
+}
+
+/**
+ * Options for a single revocation
+ */
+export interface RevokeOptions {
+  /** Drop the entry after this many milliseconds (e.g. once the key has expired anyway) */
+  ttl?: number;
+  /** Free-form reason */
+  reason?: string;
+}
+
+/**
+ * List of revoked keys, checked by the guard on every request
+ */
+export interface ApiKeyRevocationList {
+  /** Revoke a key by key ID or fingerprint, on this and every subscribed instance */
+  revoke(id: string, options?: RevokeOptions): Promise<void>;
+  /** Get the revocation entry for a key ID or fingerprint, if revoked */
+  isRevoked(id: string): RevocationEntry | undefined;
+  /** Listen for revocations (local and remote), returns a function that stops listening */
+  subscribe(listener: (entry: RevocationEntry) => void): () => void;
+  /** Stop listening to the backend */
+  close(): void;
+  /** Number of revoked keys */
+  readonly size: number;
+}
+
+/**
+ * In-process revocation backend. Share one instance between revocation lists
+ * (e.g. several Fastify instances in a process or tests) to propagate revocations.
+ */
+export class EventEmitterRevocationBackend implements RevocationBackend {
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+
+  publish(entry: RevocationEntry): void {
+    this.emitter.emit('revoke', entry);
+  }
+
+  subscribe(listener: (entry: RevocationEntry) => void): () => void {
+    this.emitter.on('revoke', listener);
+    return () => this.emitter.off('revoke', listener);
+  }
+}
+
+/**
+ * Create a revocation list
+ */
+export function createRevocationList(options: RevocationListOptions = {}): ApiKeyRevocationList {
+  const { backend = new EventEmitterRevocationBackend() } = options;
+  const entries = new Map<string, RevocationEntry>();
+  const listeners = new Set<(entry: RevocationEntry) => void>();
+
+  const unsubscribe = backend.subscribe((entry) => {
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return;
+    }
+    entries.set(entry.id, entry);
+    for (const listener of listeners) {
+      listener(entry);
+    }
+  });
+
+  return {
+    async revoke(id: string, revokeOptions: RevokeOptions = {}): Promise<void> {
+      const { ttl, reason } = revokeOptions;
+      const entry: RevocationEntry = {
+        id,
+        expiresAt: ttl === undefined ? undefined : Date.now() + ttl,
+        reason,
+      };
+
+      // Effective locally right away, whatever the backend latency
+      entries.set(id, entry);
+      await backend.publish(entry);
+    },
+
+    isRevoked(id: string): RevocationEntry | undefined {
+      const entry = entries.get(id);
+      if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        entries.delete(id);
+        return undefined;
+      }
+      return entry;
+    },
+
+    subscribe(listener: (entry: RevocationEntry) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    close(): void {
+      unsubscribe();
+      listeners.clear();
+    },
+
+    get size(): number {
+      return entries.size;
+    },
+  };
+}
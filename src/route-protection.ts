@@ -0,0 +1,129 @@
+import type { FastifyInstance, HTTPMethods, preHandlerAsyncHookHandler } from 'fastify';
+import type { ApiKeyGuardOptions, ProtectRoutesOptions, RouteProtection } from './types.js';
+
+const kGuardOptions = Symbol('fastify-api-key.guardOptions');
+
+interface MarkedGuard {
+  [kGuardOptions]?: ApiKeyGuardOptions;
+}
+
+/**
+ * Tag a guard with its options so route protection can recognise manually wired guards
+ */
+export function markGuard<T extends object>(guard: T, options: ApiKeyGuardOptions): T {
+  return Object.assign(guard, { [kGuardOptions]: options });
+}
+
+/**
+ * Options of the `apiKey()` guard among route handlers, if any
+ */
+export function findGuardOptions(handlers: unknown): ApiKeyGuardOptions | undefined {
+  const list = (Array.isArray(handlers) ? handlers : [handlers]) as (MarkedGuard | undefined)[];
+  return list.find((handler) => handler?.[kGuardOptions] !== undefined)?.[kGuardOptions];
+}
+
+/**
+ * Guard every route registered after the plugin, deny-by-default. Routes registered
+ * before it are reported as unprotected, with a warning.
+ *
+ * Requirements come from `config.apiKey` in the route options (`false` opts out).
+ * Routes that already use an `apiKey()` guard as preHandler are left untouched.
+ */
+export function protectRoutes(
+  fastify: FastifyInstance,
+  createGuard: (options?: ApiKeyGuardOptions) => preHandlerAsyncHookHandler,
+  options: ProtectRoutesOptions
+): void {
+  const { report = true } = options;
+  const routes: RouteProtection[] = [];
+
+  fastify.addHook('onRoute', (routeOptions) => {
+    const methods = Array.isArray(routeOptions.method)
+      ? routeOptions.method
+      : [routeOptions.method];
+    const entry = { method: methods.join(','), url: routeOptions.url };
+    const existing = findGuardOptions(routeOptions.preHandler);
+    const config = routeOptions.config?.apiKey;
+
+    if (existing) {
+      routes.push({ ...entry, protected: true, requirements: existing });
+      return;
+    }
+
+    if (config === false) {
+      routes.push({ ...entry, protected: false });
+      return;
+    }
+
+    const requirements = config ?? {};
+    const preHandler = routeOptions.preHandler ?? [];
+    routeOptions.preHandler = [
+      createGuard(requirements),
+      ...(Array.isArray(preHandler) ? preHandler : [preHandler]),
+    ];
+    routes.push({ ...entry, protected: true, requirements });
+  });
+
+  fastify.addHook('onReady', async () => {
+    // Routes registered before the plugin never went through the hook, so stay open
+    // Prefixed "/" routes are also routed with a trailing slash, which the hook does not see
+    const id = (method: string, url: string): string => `${method} ${url.replace(/(.)\/$/, '$1')}`;
+    const seen = new Set(
+      routes.flatMap((route) => route.method.split(',').map((method) => id(method, route.url)))
+    );
+    const missed = listRoutes(fastify)
+      .filter((route) => !seen.has(id(route.method, route.url)))
+      .map((route) => ({ ...route, protected: false, registeredBefore: true }));
+    if (missed.length > 0) {
+      fastify.log.warn(
+        { routes: missed },
+        'Routes registered before fastify-api-key are not protected by protectRoutes'
+      );
+    }
+
+    if (!report) {
+      return;
+    }
+    const all = [...missed, ...routes];
+    if (typeof report === 'function') {
+      report(all);
+      return;
+    }
+    fastify.log.info(
+      {
+        routes: all,
+        protected: all.filter((route) => route.protected).length,
+        unprotected: all.filter((route) => !route.protected).length,
+      },
+      'API key route protection report'
+    );
+  });
+}
+
+/**
+ * Every route of the server, read from `printRoutes()` and checked with `hasRoute()`
+ */
+function listRoutes(fastify: FastifyInstance): { method: string; url: string }[] {
+  const routes: { method: string; url: string }[] = [];
+  const path: string[] = [];
+
+  for (const line of fastify.printRoutes({ commonPrefix: false }).split('\n')) {
+    // Each level is indented by four characters, e.g. "│   └── users (GET, HEAD)"
+    const match = /^((?:[│ ] {3})*)[├└]── (.*?)(?: \(([A-Z, ]+)\))?(?: \{.*\})?$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const depth = (match[1] ?? '').length / 4;
+    path.length = depth;
+    path.push(match[2] ?? '');
+
+    const url = path.join('');
+    for (const method of match[3]?.split(', ') ?? []) {
+      if (fastify.hasRoute({ url, method: method as HTTPMethods })) {
+        routes.push({ method, url });
+      }
+    }
+  }
+
+  return routes;
+}
@@ -0,0 +1,215 @@
+import { exactScopeMatcher, type ScopeMatcher } from './scopes.js';
+
+/**
+ * Boolean scope requirement.
+ *
+ * Strings are parsed as expressions ("billing:read AND (orders:write OR admin)").
+ * Inside the object form, strings are plain scope names.
+ */
+export type ScopeExpression =
+  | string
+  | { and: ScopeExpression[] }
+  | { or: ScopeExpression[] }
+  | { not: ScopeExpression };
+
+/**
+ * Compiled scope expression
+ */
+export type ScopeNode =
+  | { type: 'scope'; scope: string }
+  | { type: 'and'; children: ScopeNode[] }
+  | { type: 'or'; children: ScopeNode[] }
+  | { type: 'not'; child: ScopeNode };
+
+/**
+ * Result of evaluating a scope expression
+ */
+export interface ScopeExpressionResult {
+  valid: boolean;
+  /** The innermost clause that was not satisfied */
+  failedClause?: ScopeNode;
+  /** Scopes from the failed clause that are not granted */
+  missing?: string[];
+}
+
+const TOKEN = /\(|\)|[^\s()]+/g;
+
+/**
+ * Parse and validate a scope expression. Throws on invalid input.
+ */
+export function compileScopeExpression(expression: ScopeExpression): ScopeNode {
+  return typeof expression === 'string' ? parseExpression(expression) : compileObject(expression);
+}
+
+/**
+ * Evaluate a compiled scope expression against granted scopes
+ */
+export function evaluateScopeExpression(
+  node: ScopeNode,
+  provided: string[],
+  matcher: ScopeMatcher = exactScopeMatcher
+): ScopeExpressionResult {
+  const failedClause = findFailedClause(node, provided, matcher);
+  if (!failedClause) {
+    return { valid: true };
+  }
+
+  return {
+    valid: false,
+    failedClause,
+    missing: requiredScopes(failedClause).filter((scope) => !matcher(provided, scope)),
+  };
+}
+
+/**
+ * Format a compiled scope expression using the string syntax
+ */
+export function formatScopeExpression(node: ScopeNode): string {
+  switch (node.type) {
+    case 'scope':
+      return node.scope;
+    case 'not': {
+      const child = formatScopeExpression(node.child);
+      return node.child.type === 'scope' || node.child.type === 'not'
+        ? `NOT ${child}`
+        : `NOT (${child})`;
+    }
+    case 'and':
+      return node.children
+        .map((child) =>
+          child.type === 'or' ? `(${formatScopeExpression(child)})` : formatScopeExpression(child)
+        )
+        .join(' AND ');
+    case 'or':
+      return node.children.map(formatScopeExpression).join(' OR ');
+  }
+}
+
+function satisfies(node: ScopeNode, provided: string[], matcher: ScopeMatcher): boolean {
+  return findFailedClause(node, provided, matcher) === null;
+}
+
+function findFailedClause(
+  node: ScopeNode,
+  provided: string[],
+  matcher: ScopeMatcher
+): ScopeNode | null {
+  switch (node.type) {
+    case 'scope':
+      return matcher(provided, node.scope) ? null : node;
+    case 'not':
+      return satisfies(node.child, provided, matcher) ? node : null;
+    case 'and':
+      for (const child of node.children) {
+        const failed = findFailedClause(child, provided, matcher);
+        if (failed) {
+          return failed;
+        }
+      }
+      return null;
+    case 'or':
+      return node.children.some((child) => satisfies(child, provided, matcher)) ? null : node;
+  }
+}
+
+// Scopes that must be granted for a clause to pass (negated scopes are excluded)
+function requiredScopes(node: ScopeNode): string[] {
+  switch (node.type) {
+    case 'scope':
+      return [node.scope];
+    case 'not':
+      return [];
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(requiredScopes))];
+  }
+}
+
+function parseExpression(input: string): ScopeNode {
+  const tokens = input.match(TOKEN) ?? [];
+  if (tokens.length === 0) {
+    throw new Error(`Invalid scope expression: "${input}"`);
+  }
+
+  let position = 0;
+  const peek = (): string | undefined => tokens[position];
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid scope expression: "${input}" (${reason})`);
+  };
+
+  const parseOr = (): ScopeNode => {
+    const children = [parseAnd()];
+    while (peek() === 'OR') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 && children[0] ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): ScopeNode => {
+    const children = [parseUnary()];
+    while (peek() === 'AND') {
+      position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 && children[0] ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): ScopeNode => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      return fail('unexpected end of expression');
+    }
+    if (token === 'NOT') {
+      return { type: 'not', child: parseUnary() };
+    }
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') {
+        fail('missing closing parenthesis');
+      }
+      return node;
+    }
+    if (token === ')' || token === 'AND' || token === 'OR') {
+      return fail(`unexpected "${token}"`);
+    }
+    return { type: 'scope', scope: token };
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${peek() ?? ''}"`);
+  }
+  return node;
+}
+
+function compileObject(expression: unknown): ScopeNode {
+  if (typeof expression === 'string') {
+    if (expression === '' || /[\s()]/.test(expression)) {
+      throw new Error(`Invalid scope in expression: "${expression}"`);
+    }
+    return { type: 'scope', scope: expression };
+  }
+
+  if (typeof expression !== 'object' || expression === null || Array.isArray(expression)) {
+    throw new Error('Invalid scope expression: expected a scope or { and | or | not }');
+  }
+
+  const entries = Object.entries(expression as Record<string, unknown>);
+  const [entry] = entries;
+  if (entries.length !== 1 || !entry) {
+    throw new Error('Invalid scope expression: expected exactly one of and, or, not');
+  }
+
+  const [operator, operand] = entry;
+  if (operator === 'not') {
+    return { type: 'not', child: compileObject(operand) };
+  }
+  if (operator === 'and' || operator === 'or') {
+    if (!Array.isArray(operand) || operand.length === 0) {
+      throw new Error(`Invalid scope expression: "${operator}" expects a non-empty array`);
+    }
+    return { type: operator, children: operand.map(compileObject) };
+  }
+  throw new Error(`Invalid scope expression: unknown operator "${operator}"`);
+}
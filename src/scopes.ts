@@ -0,0 +1,79 @@
+/**
+ * Decides whether a set of granted scopes satisfies a required scope
+ */
+export type ScopeMatcher = (provided: readonly string[], required: string) => boolean;
+
+/**
+ * Options for `createScopeMatcher`
+ */
+export interface ScopeMatcherOptions {
+  /**
+   * Treat "*" as every scope and "<namespace><separator>*" as every scope in that namespace
+   * @default true
+   */
+  wildcards?: boolean;
+  /**
+   * Namespace separator
+   * @default ':'
+   */
+  separator?: string;
+  /**
+   * Scope implication graph, e.g. `{ admin: ['write'], write: ['read'] }`.
+   * Implications are transitive.
+   */
+  implies?: Record<string, string[]>;
+}
+
+/**
+ * Exact string matching (the default)
+ */
+export const exactScopeMatcher: ScopeMatcher = (provided, required) => provided.includes(required);
+
+/**
+ * Create a scope matcher supporting namespace wildcards and implied scopes
+ */
+export function createScopeMatcher(options: ScopeMatcherOptions = {}): ScopeMatcher {
+  const { wildcards = true, separator = ':', implies = {} } = options;
+  const wildcardSuffix = `${separator}*`;
+  const closures = new Map<string, string[]>();
+
+  // All scopes granted by a single scope, including itself
+  const closure = (scope: string): string[] => {
+    let granted = closures.get(scope);
+    if (!granted) {
+      const seen = new Set([scope]);
+      const queue = [scope];
+      for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+        for (const implied of Object.hasOwn(implies, current) ? (implies[current] ?? []) : []) {
+          if (!seen.has(implied)) {
+            seen.add(implied);
+            queue.push(implied);
+          }
+        }
+      }
+      granted = [...seen];
+      closures.set(scope, granted);
+    }
+    return granted;
+  };
+
+  const grants = (scope: string, required: string): boolean => {
+    if (scope === required) {
+      return true;
+    }
+    if (!wildcards) {
+      return false;
+    }
+    if (scope === '*') {
+      return true;
+    }
+    return (
+      scope.endsWith(wildcardSuffix) &&
+      required.startsWith(scope.slice(0, -1)) &&
+      required.length > scope.length - 1
+    );
+  };
+
+  return (provided, required) =>
+    provided.some((scope) => closure(scope).some((granted) => grants(granted, required)));
+}
@@ -0,0 +1,489 @@
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { Transform } from 'node:stream';
+import type { FastifyReply, FastifyRequest, RequestPayload } from 'fastify';
+import type { ApiKeySource, ApiKeyValidator } from './types.js';
+import { timingSafeCompare } from './utils.js';
+import {
+  ExpiredSignedUrlError,
+  InvalidSignatureError,
+  ReplayedRequestError,
+  StaleTimestampError,
+  type ApiKeyError,
+} from './errors.js';
+
+/**
+ * Names of the headers carrying the signature
+ */
+export interface SignatureHeaderNames {
+  /** @default 'x-api-key-id' */
+  keyId?: string;
+  /** Unix timestamp in seconds, @default 'x-signature-timestamp' */
+  timestamp?: string;
+  /** Single-use random value, @default 'x-signature-nonce' */
+  nonce?: string;
+  /** Hex HMAC-SHA256 of the canonical request, @default 'x-signature' */
+  signature?: string;
+}
+
+/**
+ * Storage of the nonces of signed requests, used to reject replays
+ */
+export interface NonceStore {
+  /** Record a nonce until `expiresAt` (ms); returns false if it is already recorded */
+  add(nonce: string, expiresAt: number, now: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Options for request signing
+ */
+export interface RequestSigningOptions {
+  /**
+   * Validator of signed requests and URLs, called with the key ID. Valid results must carry
+   * the key's `signingSecret`. Kept apart from `validate` so that key IDs, which are not
+   * secret, are never accepted as bearer keys.
+   */
+  validate: ApiKeyValidator;
+  /** Header names */
+  headers?: SignatureHeaderNames;
+  /**
+   * Headers covered by the signature
+   * @default ['host', 'content-type']
+   */
+  signedHeaders?: string[];
+  /**
+   * Maximum difference in milliseconds between the request timestamp and the server clock
+   * @default 300000
+   */
+  tolerance?: number;
+  /**
+   * Nonce store, shared between instances to reject replays across them
+   * @default new InMemoryNonceStore()
+   */
+  nonceStore?: NonceStore;
+}
+
+/**
+ * Options for signing a request on the client side
+ */
+export interface SignRequestOptions {
+  /** Key ID */
+  keyId: string;
+  /** Signing secret of the key */
+  secret: string;
+  /** HTTP method */
+  method: string;
+  /** Path and query string, exactly as sent */
+  url: string;
+  /** Request headers; the ones in `signedHeaders` are signed */
+  headers?: Record<string, string | undefined>;
+  /** Body, exactly as sent */
+  body?: string | Buffer;
+  /**
+   * Headers covered by the signature (must match the server)
+   * @default ['host', 'content-type']
+   */
+  signedHeaders?: string[];
+  /** Header names (must match the server) */
+  headerNames?: SignatureHeaderNames;
+  /** Unix timestamp in seconds, @default now */
+  timestamp?: number;
+  /** Nonce, @default 16 random bytes */
+  nonce?: string;
+}
+
+/**
+ * Parts of a request covered by its signature
+ */
+export interface CanonicalRequest {
+  method: string;
+  url: string;
+  timestamp: string;
+  nonce: string;
+  /** Signed headers as [lowercase name, value] pairs, in signing order */
+  headers: [string, string][];
+  /** Hex SHA-256 of the body */
+  bodyDigest: string;
+}
+
+/**
+ * Options for creating a signed URL
+ */
+export interface SignedUrlOptions {
+  /** Key ID */
+  keyId: string;
+  /** Signing secret of the key */
+  secret: string;
+  /** Lifetime of the URL in milliseconds */
+  expiresIn: number;
+  /** Scopes granted to the URL, a subset of the key's (none by default) */
+  scopes?: string[];
+}
+
+/**
+ * Credentials read from a signed request or URL
+ */
+export interface SignedCredentials {
+  keyId: string;
+  signature?: string | undefined;
+  /** Timestamp of signed requests (unix seconds) */
+  timestamp?: string | undefined;
+  /** Nonce of signed requests */
+  nonce?: string | undefined;
+  /** Expiry of signed URLs (unix seconds) */
+  expires?: string | undefined;
+  /** Scopes signed URLs are restricted to */
+  scopes?: string[] | undefined;
+}
+
+/**
+ * Verification of one signing mode, split around the call to the validator
+ */
+export interface SignatureVerifier {
+  /** Where the key ID is read from */
+  readonly source: ApiKeySource;
+  /** Validator called with the key ID */
+  readonly validate: ApiKeyValidator;
+  /** Read the credentials; null when there is no key ID */
+  read(request: FastifyRequest): SignedCredentials | null;
+  /** Checks done before validation: format, then timestamp or expiry */
+  check(credentials: SignedCredentials, now: number): ApiKeyError | undefined;
+  /** Verify the signature with the key's secret, recording nonces of authentic requests */
+  verify(
+    request: FastifyRequest,
+    credentials: SignedCredentials,
+    secret: string,
+    now: number
+  ): Promise<ApiKeyError | undefined>;
+}
+
+/**
+ * Verifies signed requests and URLs for the guard
+ */
+export interface RequestVerifier {
+  /** preParsing hook recording the digest of request bodies */
+  digestBody: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    payload: RequestPayload
+  ) => Promise<RequestPayload>;
+  /** Signed requests (`signed` guards) */
+  readonly request: SignatureVerifier;
+  /** Signed URLs (`signedUrl` guards) */
+  readonly url: SignatureVerifier;
+}
+
+const DEFAULT_HEADER_NAMES: Required<SignatureHeaderNames> = {
+  keyId: 'x-api-key-id',
+  timestamp: 'x-signature-timestamp',
+  nonce: 'x-signature-nonce',
+  signature: 'x-signature',
+};
+
+const DEFAULT_SIGNED_HEADERS = ['host', 'content-type'];
+
+/** Query parameters of signed URLs; the signature is always the last one */
+export const SIGNED_URL_PARAMETERS = {
+  keyId: 'x-key-id',
+  expires: 'x-expires',
+  scopes: 'x-scopes',
+  signature: 'x-signature',
+};
+
+const SIGNATURE_MARKER = `&${SIGNED_URL_PARAMETERS.signature}=`;
+
+/** Base used to parse relative URLs */
+const RELATIVE_BASE = 'http://localhost';
+
+const TIMESTAMP = /^\d{1,12}$/;
+const NONCE = /^[\w-]{8,128}$/;
+const SIGNATURE = /^[0-9a-f]{64}$/i;
+
+const EMPTY_BODY_DIGEST = createHash('sha256').digest('hex');
+
+const SWEEP_INTERVAL = 60_000;
+
+/**
+ * In-memory nonce store, suitable for a single process
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+  private lastSweep = 0;
+
+  add(nonce: string, expiresAt: number, now: number): boolean {
+    this.sweep(now);
+
+    const existing = this.nonces.get(nonce);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    }
+  }
+}
+
+/**
+ * String signed by clients and servers: method, URL, timestamp, nonce, signed headers
+ * (`name:value`) and body digest, one per line
+ */
+export function canonicalizeRequest(request: CanonicalRequest): string {
+  return [
+    request.method.toUpperCase(),
+    request.url,
+    request.timestamp,
+    request.nonce,
+    ...request.headers.map(([name, value]) => `${name}:${value.trim()}`),
+    request.bodyDigest,
+  ].join('\n');
+}
+
+/**
+ * Sign a request, returning the headers to send with it
+ */
+export function signRequest(options: SignRequestOptions): Record<string, string> {
+  const {
+    keyId,
+    secret,
+    method,
+    url,
+    headers = {},
+    body,
+    signedHeaders = DEFAULT_SIGNED_HEADERS,
+    headerNames,
+    timestamp = Math.floor(Date.now() / 1000),
+    nonce = randomBytes(16).toString('base64url'),
+  } = options;
+  const names = { ...DEFAULT_HEADER_NAMES, ...headerNames };
+  const lowercaseHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  const canonical = canonicalizeRequest({
+    method,
+    url,
+    timestamp: String(timestamp),
+    nonce,
+    headers: signedHeaders.map((name) => [
+      name.toLowerCase(),
+      lowercaseHeaders[name.toLowerCase()] ?? '',
+    ]),
+    bodyDigest: body === undefined ? EMPTY_BODY_DIGEST : digest(body),
+  });
+
+  return {
+    [names.keyId]: keyId,
+    [names.timestamp]: String(timestamp),
+    [names.nonce]: nonce,
+    [names.signature]: createHmac('sha256', secret).update(canonical).digest('hex'),
+  };
+}
+
+/**
+ * Create a URL usable without headers until it expires, e.g. for downloads. The URL
+ * carries the key ID, expiry, scopes and a signature made with the key's secret, never
+ * the key itself. It is accepted by guards with `signedUrl: true`.
+ */
+export function createSignedUrl(url: string, options: SignedUrlOptions): string {
+  const { keyId, secret, expiresIn, scopes = [] } = options;
+  const parsed = new URL(url, RELATIVE_BASE);
+
+  for (const parameter of Object.values(SIGNED_URL_PARAMETERS)) {
+    parsed.searchParams.delete(parameter);
+  }
+  parsed.searchParams.set(SIGNED_URL_PARAMETERS.keyId, keyId);
+  parsed.searchParams.set(
+    SIGNED_URL_PARAMETERS.expires,
+    String(Math.ceil((Date.now() + expiresIn) / 1000))
+  );
+  if (scopes.length > 0) {
+    parsed.searchParams.set(SIGNED_URL_PARAMETERS.scopes, scopes.join(' '));
+  }
+
+  // Path and query are signed as the server receives them
+  const signed = `${parsed.pathname}${parsed.search}`;
+  const signature = createHmac('sha256', secret).update(signed).digest('hex');
+  const path = `${signed}${SIGNATURE_MARKER}${signature}${parsed.hash}`;
+  return URL.canParse(url) ? `${parsed.origin}${path}` : path;
+}
+
+/**
+ * Create the verifier of signed requests and URLs
+ */
+export function createRequestVerifier(options: RequestSigningOptions): RequestVerifier {
+  const {
+    validate,
+    headers: headerNames,
+    signedHeaders = DEFAULT_SIGNED_HEADERS,
+    tolerance = 300_000,
+    nonceStore = new InMemoryNonceStore(),
+  } = options;
+  const names = Object.fromEntries(
+    Object.entries({ ...DEFAULT_HEADER_NAMES, ...headerNames }).map(([field, name]) => [
+      field,
+      name.toLowerCase(),
+    ])
+  ) as Required<SignatureHeaderNames>;
+  const signed = signedHeaders.map((name) => name.toLowerCase());
+
+  // Body digests by request; null while the body is being read
+  const bodyDigests = new WeakMap<FastifyRequest, string | null>();
+
+  const header = (request: FastifyRequest, name: string): string | undefined => {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value.join(', ') : value;
+  };
+
+  const requestVerifier: SignatureVerifier = {
+    source: { type: 'header', name: names.keyId },
+    validate,
+
+    read(request): SignedCredentials | null {
+      const keyId = header(request, names.keyId)?.trim();
+      if (!keyId) {
+        return null;
+      }
+      return {
+        keyId,
+        timestamp: header(request, names.timestamp),
+        nonce: header(request, names.nonce),
+        signature: header(request, names.signature),
+      };
+    },
+
+    check(credentials, now): ApiKeyError | undefined {
+      const { timestamp, nonce, signature } = credentials;
+      if (
+        !timestamp ||
+        !TIMESTAMP.test(timestamp) ||
+        !nonce ||
+        !NONCE.test(nonce) ||
+        !signature ||
+        !SIGNATURE.test(signature)
+      ) {
+        return new InvalidSignatureError('Missing or malformed signature headers');
+      }
+      if (Math.abs(now - Number(timestamp) * 1000) > tolerance) {
+        return new StaleTimestampError();
+      }
+      return undefined;
+    },
+
+    async verify(request, credentials, secret, now): Promise<ApiKeyError | undefined> {
+      const { keyId, timestamp, nonce, signature } = credentials;
+      const bodyDigest = bodyDigests.has(request) ? bodyDigests.get(request) : EMPTY_BODY_DIGEST;
+      // A body still being read (e.g. streamed to the handler) cannot be verified
+      if (!bodyDigest || !timestamp || !nonce || !signature) {
+        return new InvalidSignatureError();
+      }
+
+      const canonical = canonicalizeRequest({
+        method: request.method,
+        url: request.url,
+        timestamp,
+        nonce,
+        headers: signed.map((name) => [name, header(request, name) ?? '']),
+        bodyDigest,
+      });
+      const expected = createHmac('sha256', secret).update(canonical).digest('hex');
+      if (!timingSafeCompare(expected, signature.toLowerCase())) {
+        return new InvalidSignatureError();
+      }
+
+      // Requests older than the tolerance are stale, so nonces need not be kept longer
+      const expiresAt = Number(timestamp) * 1000 + tolerance;
+      return (await nonceStore.add(`${keyId}:${nonce}`, expiresAt, now))
+        ? undefined
+        : new ReplayedRequestError();
+    },
+  };
+
+  const urlVerifier: SignatureVerifier = {
+    source: { type: 'query', name: SIGNED_URL_PARAMETERS.keyId },
+    validate,
+
+    read(request): SignedCredentials | null {
+      const start = request.url.indexOf('?');
+      const query = new URLSearchParams(start === -1 ? '' : request.url.slice(start + 1));
+      const keyId = query.get(SIGNED_URL_PARAMETERS.keyId)?.trim();
+      if (!keyId) {
+        return null;
+      }
+      return {
+        keyId,
+        expires: query.get(SIGNED_URL_PARAMETERS.expires) ?? undefined,
+        scopes: (query.get(SIGNED_URL_PARAMETERS.scopes) ?? '').split(' ').filter(Boolean),
+        signature: query.get(SIGNED_URL_PARAMETERS.signature) ?? undefined,
+      };
+    },
+
+    check(credentials, now): ApiKeyError | undefined {
+      const { expires, signature } = credentials;
+      if (!expires || !TIMESTAMP.test(expires) || !signature || !SIGNATURE.test(signature)) {
+        return new InvalidSignatureError('Missing or malformed signed URL parameters');
+      }
+      if (Number(expires) * 1000 <= now) {
+        return new ExpiredSignedUrlError();
+      }
+      return undefined;
+    },
+
+    async verify(request, _credentials, secret): Promise<ApiKeyError | undefined> {
+      // Everything before the trailing signature is signed
+      const index = request.url.lastIndexOf(SIGNATURE_MARKER);
+      const signature = index === -1 ? '' : request.url.slice(index + SIGNATURE_MARKER.length);
+      if (!SIGNATURE.test(signature)) {
+        return new InvalidSignatureError();
+      }
+
+      const expected = createHmac('sha256', secret)
+        .update(request.url.slice(0, index))
+        .digest('hex');
+      return timingSafeCompare(expected, signature.toLowerCase())
+        ? undefined
+        : new InvalidSignatureError();
+    },
+  };
+
+  return {
+    digestBody: async (request, _reply, payload): Promise<RequestPayload> => {
+      const { 'content-length': length, 'transfer-encoding': encoding } = request.headers;
+      if (encoding === undefined && !(Number(length) > 0)) {
+        return payload;
+      }
+
+      const hash = createHash('sha256');
+      bodyDigests.set(request, null);
+      const digesting = new Transform({
+        transform(chunk: Buffer, _encoding, callback): void {
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+        flush(callback): void {
+          bodyDigests.set(request, hash.digest('hex'));
+          callback();
+        },
+      });
+      payload.on('error', (err) => digesting.destroy(err));
+      return payload.pipe(digesting);
+    },
+
+    request: requestVerifier,
+    url: urlVerifier,
+  };
+}
+
+function digest(body: string | Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
@@ -0,0 +1,257 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { ApiKeyValidator } from './types.js';
+import { hashApiKey, verifyApiKey, type ApiKeyHashOptions } from './hashing.js';
+import { generateStructuredApiKey, parseApiKey } from './key-format.js';
+
+/**
+ * Stored API key. Only the hash of the key is kept.
+ */
+export interface ApiKeyRecord {
+  /** Key identifier (the key ID of structured keys) */
+  id: string;
+  /** Hash produced by `hashApiKey` */
+  hash: string;
+  /** Human readable name */
+  name?: string | undefined;
+  /** Scopes granted */
+  scopes: string[];
+  /** Custom metadata */
+  metadata: Record<string, unknown>;
+  /** Creation date */
+  createdAt: Date;
+  /** Expiry date */
+  expiresAt?: Date | undefined;
+  /** Revocation date, set once the key is revoked */
+  revokedAt?: Date | undefined;
+}
+
+/**
+ * Fields required to create a record
+ */
+export interface CreateApiKeyRecord {
+  id: string;
+  hash: string;
+  name?: string | undefined;
+  scopes?: string[] | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  expiresAt?: Date | undefined;
+}
+
+/**
+ * Fields that can be updated on a record
+ */
+export interface UpdateApiKeyRecord {
+  hash?: string | undefined;
+  name?: string | undefined;
+  scopes?: string[] | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  expiresAt?: Date | undefined;
+}
+
+/**
+ * Storage backend for API keys
+ */
+export interface ApiKeyStore {
+  /** Create a record (fails if the ID is taken) */
+  create(record: CreateApiKeyRecord): Promise<ApiKeyRecord>;
+  /** Find a record by ID */
+  findById(id: string): Promise<ApiKeyRecord | null>;
+  /** Find a record by hash (only deterministic `sha256` hashes can be looked up) */
+  findByHash(hash: string): Promise<ApiKeyRecord | null>;
+  /** List all records, including revoked ones */
+  list(): Promise<ApiKeyRecord[]>;
+  /** Update a record, returns null if it does not exist */
+  update(id: string, changes: UpdateApiKeyRecord): Promise<ApiKeyRecord | null>;
+  /**
+   * Mark a record as revoked, returns null if it does not exist. Cached validations are
+   * unaffected: also call `fastify.apiKeyRevocations.revoke(id)`, as the admin routes do.
+   */
+  revoke(id: string): Promise<ApiKeyRecord | null>;
+  /** Called when the store is given to the plugin, before the server starts */
+  start?(log: FastifyBaseLogger): Promise<void>;
+  /** Called when the server closes */
+  close?(): Promise<void>;
+}
+
+/**
+ * Options for `createApiKey`
+ */
+export interface CreateApiKeyOptions {
+  /** Key prefix (e.g. "sk_live") */
+  prefix?: string;
+  name?: string | undefined;
+  scopes?: string[] | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  expiresAt?: Date | undefined;
+  /** Hashing options, must match the ones given to `validateFromStore` */
+  hash?: ApiKeyHashOptions;
+}
+
+/**
+ * Options for `validateFromStore`
+ */
+export interface ValidateFromStoreOptions {
+  /** Hashing options, must match the ones used when the keys were created */
+  hash?: ApiKeyHashOptions;
+  /**
+   * Replace outdated hashes (see `verifyApiKey`) after a successful validation
+   * @default true
+   */
+  rehash?: boolean;
+}
+
+/**
+ * In-memory API key store, suitable for tests and single-process deployments
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private readonly records = new Map<string, ApiKeyRecord>();
+  private readonly idsByHash = new Map<string, string>();
+
+  constructor(records: ApiKeyRecord[] = []) {
+    for (const record of records) {
+      this.records.set(record.id, structuredClone(record));
+      this.idsByHash.set(record.hash, record.id);
+    }
+  }
+
+  async create(record: CreateApiKeyRecord): Promise<ApiKeyRecord> {
+    if (this.records.has(record.id)) {
+      throw new Error(`API key "${record.id}" already exists`);
+    }
+
+    const created: ApiKeyRecord = {
+      id: record.id,
+      hash: record.hash,
+      name: record.name,
+      scopes: [...(record.scopes ?? [])],
+      metadata: structuredClone(record.metadata ?? {}),
+      createdAt: new Date(),
+      expiresAt: record.expiresAt && new Date(record.expiresAt),
+    };
+    this.records.set(created.id, created);
+    this.idsByHash.set(created.hash, created.id);
+    return structuredClone(created);
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async findByHash(hash: string): Promise<ApiKeyRecord | null> {
+    const id = this.idsByHash.get(hash);
+    return id === undefined ? null : this.findById(id);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...this.records.values()].map((record) => structuredClone(record));
+  }
+
+  async update(id: string, changes: UpdateApiKeyRecord): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+
+    if (changes.hash !== undefined && changes.hash !== record.hash) {
+      this.idsByHash.delete(record.hash);
+      this.idsByHash.set(changes.hash, id);
+      record.hash = changes.hash;
+    }
+    if (changes.name !== undefined) {
+      record.name = changes.name;
+    }
+    if (changes.scopes !== undefined) {
+      record.scopes = [...changes.scopes];
+    }
+    if (changes.metadata !== undefined) {
+      record.metadata = structuredClone(changes.metadata);
+    }
+    if (changes.expiresAt !== undefined) {
+      record.expiresAt = new Date(changes.expiresAt);
+    }
+    return structuredClone(record);
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+
+    record.revokedAt ??= new Date();
+    return structuredClone(record);
+  }
+}
+
+/**
+ * Generate a structured key, store its hash and return the plaintext key.
+ * The plaintext is not stored anywhere and cannot be recovered later.
+ */
+export async function createApiKey(
+  store: ApiKeyStore,
+  options: CreateApiKeyOptions = {}
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const { prefix, name, scopes, metadata, expiresAt, hash } = options;
+  const { key, keyId } = generateStructuredApiKey(prefix === undefined ? {} : { prefix });
+
+  const record = await store.create({
+    id: keyId,
+    hash: await hashApiKey(key, hash),
+    name,
+    scopes,
+    metadata,
+    expiresAt,
+  });
+
+  return { key, record };
+}
+
+/**
+ * Build a validator backed by an `ApiKeyStore`.
+ *
+ * Structured keys are looked up by key ID and verified against the stored hash (any
+ * algorithm); other keys are looked up by their `sha256` hash. Revoked keys are
+ * rejected and `expiresAt` is passed on for the guard to enforce.
+ */
+export function validateFromStore(
+  store: ApiKeyStore,
+  options: ValidateFromStoreOptions = {}
+): ApiKeyValidator {
+  const { hash: hashOptions = {}, rehash = true } = options;
+
+  return async (key) => {
+    const parsed = parseApiKey(key);
+    const record = parsed
+      ? await store.findById(parsed.keyId)
+      : await store.findByHash(
+          await hashApiKey(key, { algorithm: 'sha256', pepper: hashOptions.pepper })
+        );
+
+    if (!record) {
+      return { valid: false };
+    }
+
+    const verification = await verifyApiKey(key, record.hash, hashOptions);
+    if (!verification.valid) {
+      return { valid: false };
+    }
+
+    if (record.revokedAt) {
+      return { valid: false, revoked: true, keyId: record.id };
+    }
+
+    // Keys found by hash must keep a deterministic hash to stay findable
+    if (rehash && verification.needsRehash && (parsed || hashOptions.algorithm !== 'scrypt')) {
+      await store.update(record.id, { hash: await hashApiKey(key, hashOptions) });
+    }
+
+    return {
+      valid: true,
+      keyId: record.id,
+      scopes: record.scopes,
+      metadata: record.metadata,
+      expiresAt: record.expiresAt,
+    };
+  };
+}
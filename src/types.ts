@@ -1,5 +1,16 @@
 import type { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
 import type { ApiKeyError } from './errors.js';
+import type { ApiKeyCache, ApiKeyCacheOptions } from './cache.js';
+import type { ApiKeyStore } from './store.js';
+import type { ApiKeyRevocationList, RevocationListOptions } from './revocation.js';
+import type { UsageTrackingOptions } from './usage.js';
+import type { ApiKeyMetrics, ApiKeyMetricsOptions } from './metrics.js';
+import type { ApiKeyAuditLog, ApiKeyAuditOptions } from './audit.js';
+import type { LogBindingsOptions } from './logging.js';
+import type { RequestSigningOptions } from './signing.js';
+import type { ScopeMatcher } from './scopes.js';
+import type { ScopeExpression } from './scope-expression.js';
+import type { RateLimitHeaderStyle, RateLimitOptions, RateLimitPolicy } from './rate-limit.js';
 
 /**
  * Source from which to extract the API key
@@ -21,7 +32,7 @@ export interface ApiKeyValidationResult {
   valid: boolean;
   /** Scopes associated with the key */
   scopes?: string[];
-  /** Rate limiting information */
+  /** Rate limiting information (informational, see `rateLimitPolicy` for enforcement) */
   rateLimit?: {
     /** Maximum requests allowed */
     limit: number;
@@ -32,6 +43,26 @@ export interface ApiKeyValidationResult {
   };
   /** Custom metadata associated with the key */
   metadata?: Record<string, unknown>;
+  /** Public key identifier (defaults to the ID parsed from structured keys) */
+  keyId?: string;
+  /** Expiry of the key (Date, ISO string or milliseconds since epoch), enforced by the guard */
+  expiresAt?: Date | string | number | undefined;
+  /**
+   * IPv4/IPv6 addresses or CIDR ranges the key may be used from (empty or omitted: any).
+   * Checked against `request.ip`, so Fastify's `trustProxy` setting applies.
+   */
+  allowedIps?: string[] | undefined;
+  /**
+   * Web origins the key may be used from (empty or omitted: any), e.g. "https://*.example.com".
+   * Checked against the Origin header, falling back to Referer.
+   */
+  allowedOrigins?: string[] | undefined;
+  /** Rate limit enforced for this key (overrides the global `rateLimit` option) */
+  rateLimitPolicy?: Partial<RateLimitPolicy> | undefined;
+  /** Secret the key signs requests with (required by the `signing` validator) */
+  signingSecret?: string | undefined;
+  /** Set with `valid: false` when the key exists but was revoked (`REVOKED_API_KEY`) */
+  revoked?: boolean | undefined;
   /** Error message if validation failed */
   errorMessage?: string;
 }
@@ -73,9 +104,15 @@ export interface FastifyApiKeyOptions {
   sources?: ApiKeySource[];
 
   /**
-   * Validation function (required)
+   * Validation function (required unless `store` is set)
+   */
+  validate?: ApiKeyValidator;
+
+  /**
+   * Key store. Keys are validated with `validateFromStore(store)` unless `validate` is set.
+   * The store's `start` and `close` lifecycle methods are called with the server's.
    */
-  validate: ApiKeyValidator;
+  store?: ApiKeyStore;
 
   /**
    * Custom error handler
@@ -100,10 +137,163 @@ export interface FastifyApiKeyOptions {
   onValidation?: ApiKeyHook;
 
   /**
-   * Use timing-safe comparison
+   * Kept for backward compatibility: sets the default of `redactKey`
    * @default true
    */
   timingSafe?: boolean;
+
+  /**
+   * Replace `ApiKeyData.key` with "[REDACTED]"; use `fingerprint` and `hint` to identify keys
+   * @default timingSafe
+   */
+  redactKey?: boolean;
+
+  /**
+   * Secret used to compute key fingerprints (HMAC). Set it in production: without it,
+   * fingerprints are plain truncated SHA-256 digests, so short or guessable keys can be
+   * checked offline against fingerprints found in logs, and a warning is logged at startup.
+   * Revoke by fingerprint with `fingerprintApiKey(key, fingerprintSecret)`.
+   */
+  fingerprintSecret?: string;
+
+  /**
+   * Prefixes shown in `ApiKeyData.hint`, e.g. `['sk_live', 'sk_test']` for keys from
+   * `generateApiKey({ prefix })`. Only listed prefixes and those of structured keys are shown,
+   * as other keys may start with secret characters. Does not restrict which keys are accepted.
+   */
+  hintPrefixes?: string[];
+
+  /**
+   * Require structured keys (`<prefix>_<keyId>_<secret>_<checksum>`).
+   * Malformed keys and keys with a bad checksum are rejected before `validate` is called.
+   * @default false
+   */
+  structuredKeys?: boolean | { prefixes?: string[] };
+
+  /**
+   * Cache validation results in memory (keyed by a hash of the key).
+   * Cached results are reused regardless of the request they were produced for.
+   * @default false
+   */
+  cache?: boolean | ApiKeyCacheOptions;
+
+  /**
+   * Enforce per-key rate limits. Limits can also be set per key through
+   * `rateLimitPolicy` in the validation result and per route through the guard options.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Send rate limit headers (and `Retry-After` on 429) from the enforced limit or
+   * from the `rateLimit` returned by `validate`
+   * @default false
+   */
+  rateLimitHeaders?: RateLimitHeaderStyle | false;
+
+  /**
+   * Tolerance in milliseconds applied when checking `expiresAt`
+   * @default 0
+   */
+  clockSkewTolerance?: number;
+
+  /**
+   * How granted scopes are matched against required ones
+   * (see `createScopeMatcher` for wildcards and implied scopes)
+   * @default exact string matching
+   */
+  scopeMatcher?: ScopeMatcher;
+
+  /**
+   * Guard every route registered after the plugin (deny-by-default).
+   * Per-route requirements are read from `config.apiKey`; `config: { apiKey: false }` opts out.
+   * @default false
+   */
+  protectRoutes?: boolean | ProtectRoutesOptions;
+
+  /**
+   * Revocation list options. Revoked keys are rejected before `validate` (by fingerprint or
+   * structured key ID) and after it (by the returned `keyId`), bypassing the cache.
+   */
+  revocations?: RevocationListOptions;
+
+  /**
+   * Track per-key usage (request count, last use, last IP, status classes) of requests that
+   * passed a guard. Usage is buffered in memory and flushed to `sink` in batches.
+   */
+  usage?: UsageTrackingOptions;
+
+  /**
+   * Count authentication outcomes by route and source type and time `validate` calls,
+   * exposed in Prometheus format through `fastify.apiKeyMetrics` (and `route`, if set)
+   * @default false
+   */
+  metrics?: boolean | ApiKeyMetricsOptions;
+
+  /**
+   * Emit audit events (auth.success, auth.failure, scope.denied and key.* from the admin
+   * routes) to the logger, an NDJSON file or custom sinks. `true` logs through `fastify.log`.
+   * @default false
+   */
+  audit?: boolean | ApiKeyAuditOptions;
+
+  /**
+   * Redact the key from request logs: the `req` serializer of request loggers censors the
+   * configured sources (headers, query, body, cookies) and the key's query parameter in
+   * `req.url`. The server logger's own `redact` option still applies.
+   * @default true
+   */
+  redactLogs?: boolean;
+
+  /**
+   * After a successful guard, replace `request.log` with a child logger bound to
+   * `apiKey: { id, fingerprint }` and the listed metadata fields
+   * @default false
+   */
+  logBindings?: boolean | LogBindingsOptions;
+
+  /**
+   * When @fastify/swagger is registered, add security schemes derived from `sources` to the
+   * generated OpenAPI document, with the security requirements (scopes) and 401/403/429
+   * error responses of every guarded route
+   * @default true
+   */
+  openapi?: boolean;
+
+  /**
+   * Verify HMAC-signed requests on guards with `signed: true`. Clients send a key ID, a
+   * timestamp, a nonce and a signature over the method, URL, signed headers, body digest,
+   * timestamp and nonce (see `signRequest`). Request bodies are hashed as they are read.
+   * Also verifies signed URLs (see `createSignedUrl`) on guards with `signedUrl: true`.
+   */
+  signing?: RequestSigningOptions;
+}
+
+/**
+ * Options for declarative route protection
+ */
+export interface ProtectRoutesOptions {
+  /**
+   * Report every route and its requirements when the server is ready:
+   * `true` logs the report through `fastify.log`, a function receives it
+   * @default true
+   */
+  report?: boolean | ((routes: RouteProtection[]) => void);
+}
+
+/**
+ * Entry of the route protection report
+ */
+export interface RouteProtection {
+  /** HTTP method(s) */
+  method: string;
+  /** Route URL */
+  url: string;
+  /** Whether the route requires an API key guard */
+  protected: boolean;
+  /** Guard options in effect */
+  requirements?: ApiKeyGuardOptions;
+  /** Registered before the plugin, so never guarded */
+  registeredBefore?: boolean;
 }
 
 /**
@@ -114,20 +304,48 @@ export interface ApiKeyGuardOptions {
   scopes?: string[] | undefined;
   /** Scopes required (at least one must be present) */
   anyScope?: string[] | undefined;
+  /**
+   * Boolean scope requirement, e.g. "billing:read AND (orders:write OR admin)" or
+   * `{ and: ['billing:read', { or: ['orders:write', 'admin'] }] }`.
+   * Parsed when the guard is created; combined with `scopes` and `anyScope` using AND.
+   */
+  requires?: ScopeExpression | undefined;
   /** Override allowAnonymous for this route */
   allowAnonymous?: boolean | undefined;
+  /** Require an Origin header for keys with `allowedOrigins` (no Referer fallback) */
+  requireOrigin?: boolean | undefined;
+  /** Rate limit for this route, counted separately per key (false disables rate limiting) */
+  rateLimit?: Partial<RateLimitPolicy> | false | undefined;
+  /** Require an HMAC-signed request (see the `signing` option) instead of a key from `sources` */
+  signed?: boolean | undefined;
+  /**
+   * Require a signed URL (see `createSignedUrl` and the `signing` option) instead of a key
+   * from `sources`. `request.apiKey.scopes` holds the scopes of the URL.
+   */
+  signedUrl?: boolean | undefined;
 }
 
 /**
  * API key data available on request
  */
 export interface ApiKeyData {
-  /** The key (redacted if timingSafe=true) */
+  /** The key ("[REDACTED]" unless `redactKey` is false) */
   key: string;
+  /** Stable, non-reversible identifier of the key, safe to log */
+  fingerprint: string;
+  /**
+   * Masked key showing its last characters and, for structured keys, its prefix,
+   * e.g. "sk_live_…a1b2"
+   */
+  hint: string;
+  /** Public key identifier */
+  keyId?: string | undefined;
   /** Scopes granted */
   scopes: string[];
   /** Rate limit information */
   rateLimit?: ApiKeyValidationResult['rateLimit'];
+  /** When the key expires */
+  expiresAt?: Date | undefined;
   /** Custom metadata */
   metadata: Record<string, unknown>;
 }
@@ -144,6 +362,33 @@ declare module 'fastify' {
      * Alias for backwards compatibility
      */
     requireApiKey: (scopes?: string[]) => preHandlerHookHandler;
+
+    /**
+     * Validation result cache (empty and inert unless the `cache` option is set)
+     */
+    apiKeyCache: ApiKeyCache;
+
+    /**
+     * Revoked keys, by key ID or fingerprint (see `fingerprintApiKey`)
+     */
+    apiKeyRevocations: ApiKeyRevocationList;
+
+    /**
+     * Authentication metrics (empty unless the `metrics` option is set)
+     */
+    apiKeyMetrics: ApiKeyMetrics;
+
+    /**
+     * Audit log (without sinks unless the `audit` option is set)
+     */
+    apiKeyAudit: ApiKeyAuditLog;
+  }
+
+  interface FastifyContextConfig {
+    /**
+     * Route requirements when `protectRoutes` is enabled (`false` opts out)
+     */
+    apiKey?: ApiKeyGuardOptions | false;
   }
 
   interface FastifyRequest {
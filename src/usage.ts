@@ -0,0 +1,116 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+/**
+ * Usage of a key since the previous flush
+ */
+export interface ApiKeyUsage {
+  /** Key ID, or fingerprint for keys without one */
+  keyId: string;
+  /** Number of requests */
+  requests: number;
+  /** Time of the last request */
+  lastUsedAt: Date;
+  /** Client IP of the last request */
+  lastIp: string;
+  /** Number of responses per status class, e.g. `{ '2xx': 10, '4xx': 1 }` */
+  statusCodes: Record<string, number>;
+}
+
+/**
+ * Receives batches of usage records, e.g. to update `last_used_at` columns
+ */
+export type ApiKeyUsageSink = (usage: ApiKeyUsage[]) => void | Promise<void>;
+
+/**
+ * Options for usage tracking
+ */
+export interface UsageTrackingOptions {
+  /** Where usage batches are sent */
+  sink: ApiKeyUsageSink;
+  /**
+   * Flush interval in milliseconds
+   * @default 10000
+   */
+  flushInterval?: number;
+  /**
+   * Flush early once this many keys are buffered
+   * @default 1000
+   */
+  maxBufferedKeys?: number;
+}
+
+/**
+ * Buffers per-key usage and flushes it to a sink
+ */
+export interface ApiKeyUsageTracker {
+  /** Record one response */
+  record(keyId: string, ip: string, statusCode: number): void;
+  /** Send buffered usage to the sink */
+  flush(): Promise<void>;
+  /** Stop the flush timer and send what is left */
+  close(): Promise<void>;
+  /** Number of keys with buffered usage */
+  readonly size: number;
+}
+
+/**
+ * Create a usage tracker. Recording is synchronous and in memory; the sink is only
+ * called from the flush timer, when the buffer is full and on close.
+ */
+export function createUsageTracker(
+  options: UsageTrackingOptions,
+  log?: FastifyBaseLogger
+): ApiKeyUsageTracker {
+  const { sink, flushInterval = 10_000, maxBufferedKeys = 1000 } = options;
+  let buffer = new Map<string, ApiKeyUsage>();
+
+  const flush = async (): Promise<void> => {
+    if (buffer.size === 0) {
+      return;
+    }
+    const batch = [...buffer.values()];
+    buffer = new Map();
+
+    try {
+      await sink(batch);
+    } catch (err) {
+      log?.error({ err, keys: batch.length }, 'Failed to flush API key usage');
+    }
+  };
+
+  const timer = setInterval(() => {
+    void flush();
+  }, flushInterval);
+  timer.unref();
+
+  return {
+    record(keyId: string, ip: string, statusCode: number): void {
+      const statusClass = `${String(Math.floor(statusCode / 100))}xx`;
+      let usage = buffer.get(keyId);
+      if (!usage) {
+        usage = { keyId, requests: 0, lastUsedAt: new Date(), lastIp: ip, statusCodes: {} };
+        buffer.set(keyId, usage);
+      }
+
+      usage.requests++;
+      usage.lastUsedAt = new Date();
+      usage.lastIp = ip;
+      usage.statusCodes[statusClass] = (usage.statusCodes[statusClass] ?? 0) + 1;
+
+      if (buffer.size >= maxBufferedKeys) {
+        void flush();
+      }
+    },
+
+    flush,
+
+    async close(): Promise<void> {
+      clearInterval(timer);
+      await flush();
+    },
+
+    get size(): number {
+      return buffer.size;
+    },
+  };
+}
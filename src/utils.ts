@@ -1,4 +1,6 @@
-import { timingSafeEqual, randomBytes } from 'node:crypto';
+import { timingSafeEqual, randomBytes, createHash, createHmac } from 'node:crypto';
+import { exactScopeMatcher, type ScopeMatcher } from './scopes.js';
+import { parseApiKey } from './key-format.js';
 
 /**
  * Timing-safe string comparison to prevent timing attacks
@@ -23,15 +25,23 @@ export function timingSafeCompare(a: string, b: string): boolean {
 /**
  * Check if all required scopes are present
  */
-export function hasAllScopes(provided: string[], required: string[]): boolean {
-  return required.every((scope) => provided.includes(scope));
+export function hasAllScopes(
+  provided: string[],
+  required: string[],
+  matcher: ScopeMatcher = exactScopeMatcher
+): boolean {
+  return required.every((scope) => matcher(provided, scope));
 }
 
 /**
  * Check if at least one required scope is present
  */
-export function hasAnyScope(provided: string[], required: string[]): boolean {
-  return required.some((scope) => provided.includes(scope));
+export function hasAnyScope(
+  provided: string[],
+  required: string[],
+  matcher: ScopeMatcher = exactScopeMatcher
+): boolean {
+  return required.some((scope) => matcher(provided, scope));
 }
 
 /**
@@ -43,3 +53,39 @@ export function generateApiKey(options: { prefix?: string; length?: number } = {
   const key = bytes.toString('base64url').slice(0, length);
   return prefix ? `${prefix}_${key}` : key;
 }
+
+/**
+ * SHA-256 hex digest of an API key, used wherever keys must be indexed without storing them
+ */
+export function digestApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Short, non-reversible identifier of an API key, safe to log and to revoke keys by.
+ * With a secret, the fingerprint is an HMAC and cannot be computed without it.
+ */
+export function fingerprintApiKey(key: string, secret?: string): string {
+  const digest = secret
+    ? createHmac('sha256', secret).update(key).digest('hex')
+    : createHash('sha256').update(key).digest('hex');
+  return digest.slice(0, 16);
+}
+
+/**
+ * Mask an API key for display, keeping its last four characters when long and its prefix
+ * when known: one of `options.prefixes` or the prefix of a structured key (e.g.
+ * "sk_live_…a1b2"). Other keys show no prefix, as their first characters may be secret.
+ */
+export function maskApiKey(key: string, options: { prefixes?: string[] | undefined } = {}): string {
+  const configured = (options.prefixes ?? [])
+    .filter((prefix) => prefix !== '' && key.startsWith(`${prefix}_`))
+    .sort((a, b) => b.length - a.length)[0];
+  const known = configured ?? parseApiKey(key)?.prefix;
+  const prefix = known ? `${known}_` : '';
+  const secretLength = key.length - prefix.length;
+  if (secretLength < 8) {
+    return '…';
+  }
+  return `${prefix}…${secretLength >= 16 ? key.slice(-4) : ''}`;
+}
@@ -1,4 +1,5 @@
-import { hasAllScopes, hasAnyScope } from './utils.js';
+import { hasAnyScope } from './utils.js';
+import { exactScopeMatcher, type ScopeMatcher } from './scopes.js';
 
 export interface ScopeValidationResult {
   valid: boolean;
@@ -11,19 +12,20 @@ export interface ScopeValidationResult {
 export function validateScopes(
   providedScopes: string[],
   requiredScopes?: string[],
-  anyScopes?: string[]
+  anyScopes?: string[],
+  matcher: ScopeMatcher = exactScopeMatcher
 ): ScopeValidationResult {
   // Check "all required" scopes
   if (requiredScopes && requiredScopes.length > 0) {
-    if (!hasAllScopes(providedScopes, requiredScopes)) {
-      const missing = requiredScopes.filter((s) => !providedScopes.includes(s));
+    const missing = requiredScopes.filter((s) => !matcher(providedScopes, s));
+    if (missing.length > 0) {
       return { valid: false, missing };
     }
   }
 
   // Check "any of" scopes
   if (anyScopes && anyScopes.length > 0) {
-    if (!hasAnyScope(providedScopes, anyScopes)) {
+    if (!hasAnyScope(providedScopes, anyScopes, matcher)) {
       return { valid: false, missing: anyScopes };
     }
   }
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance, type LightMyRequestResponse } from 'fastify';
+import fastifyApiKey, {
+  InMemoryApiKeyStore,
+  createApiKey,
+  fastifyApiKeyAdmin,
+  validateFromStore,
+} from '../src/index.js';
+import { createTestApp } from './helpers.js';
+
+describe('fastifyApiKeyAdmin', () => {
+  let app: FastifyInstance;
+  let store: InMemoryApiKeyStore;
+  let adminKey: string;
+
+  const admin = (
+    method: 'GET' | 'POST' | 'PATCH',
+    url: string,
+    payload?: Record<string, unknown>
+  ): Promise<LightMyRequestResponse> =>
+    app.inject({
+      method,
+      url: `/admin/keys${url}`,
+      headers: { 'X-API-Key': adminKey },
+      ...(payload ? { payload } : {}),
+    });
+
+  beforeEach(async () => {
+    store = new InMemoryApiKeyStore();
+    ({ key: adminKey } = await createApiKey(store, { scopes: ['api-keys:admin'] }));
+
+    app = await createTestApp({ validate: validateFromStore(store) });
+    await app.register(fastifyApiKeyAdmin, { prefix: '/admin/keys', store, keyPrefix: 'sk' });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require the admin scope', async () => {
+    const { key } = await createApiKey(store, { scopes: ['read'] });
+
+    const missing = await app.inject({ url: '/admin/keys' });
+    const forbidden = await app.inject({ url: '/admin/keys', headers: { 'X-API-Key': key } });
+
+    expect(missing.statusCode).toBe(401);
+    expect(forbidden.statusCode).toBe(403);
+  });
+
+  it('should support a custom admin scope', async () => {
+    const custom = Fastify({ logger: false });
+    await custom.register(fastifyApiKey, {
+      validate: validateFromStore(store),
+    });
+    await custom.register(fastifyApiKeyAdmin, { store, adminScope: 'root' });
+
+    const response = await custom.inject({ url: '/', headers: { 'X-API-Key': adminKey } });
+
+    expect(response.statusCode).toBe(403);
+    await custom.close();
+  });
+
+  it('should create a key and return the plaintext once', async () => {
+    const response = await admin('POST', '/', {
+      name: 'CI',
+      scopes: ['deploy'],
+      metadata: { team: 'infra' },
+      expiresAt: '2099-01-01T00:00:00.000Z',
+    });
+    const body = response.json();
+
+    expect(response.statusCode).toBe(201);
+    expect(body.key).toMatch(/^sk_/);
+    expect(body.record).toMatchObject({
+      name: 'CI',
+      scopes: ['deploy'],
+      metadata: { team: 'infra' },
+      expiresAt: '2099-01-01T00:00:00.000Z',
+    });
+    expect(body.record).not.toHaveProperty('hash');
+
+    const fetched = await admin('GET', `/${String(body.record.id)}`);
+    expect(fetched.json()).not.toHaveProperty('key');
+    expect(fetched.json()).not.toHaveProperty('hash');
+  });
+
+  it('should reject invalid bodies', async () => {
+    const badDate = await admin('POST', '/', { expiresAt: 'tomorrow' });
+    const badScopes = await admin('POST', '/', { scopes: [''] });
+    const badMetadata = await admin('POST', '/', { metadata: 'none' });
+
+    expect(badDate.statusCode).toBe(400);
+    expect(badScopes.statusCode).toBe(400);
+    expect(badMetadata.statusCode).toBe(400);
+  });
+
+  it('should ignore unknown body fields', async () => {
+    const response = await admin('POST', '/', { scopes: ['read'], hash: 'attacker-chosen' });
+
+    expect(response.statusCode).toBe(201);
+    expect((await store.findById(response.json().record.id))?.hash).not.toBe('attacker-chosen');
+  });
+
+  it('should list keys without hashes', async () => {
+    await admin('POST', '/', { name: 'second' });
+
+    const response = await admin('GET', '/');
+    const { keys } = response.json<{ keys: Record<string, unknown>[] }>();
+
+    expect(keys).toHaveLength(2);
+    expect(keys.every((record) => !('hash' in record))).toBe(true);
+  });
+
+  it('should return 404 for unknown keys', async () => {
+    for (const [method, url] of [
+      ['GET', '/missing'],
+      ['PATCH', '/missing'],
+      ['POST', '/missing/rotate'],
+      ['POST', '/missing/revoke'],
+    ] as const) {
+      const response = await admin(method, url, method === 'PATCH' ? { name: 'x' } : undefined);
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toMatchObject({ error: 'API_KEY_NOT_FOUND' });
+    }
+  });
+
+  it('should update scopes and metadata', async () => {
+    const { key, record } = await createApiKey(store, { scopes: ['read'] });
+    app.get('/data', { preHandler: app.apiKey({ scopes: ['write'] }) }, async () => ({ ok: true }));
+
+    const before = await app.inject({ url: '/data', headers: { 'X-API-Key': key } });
+    const response = await admin('PATCH', `/${record.id}`, {
+      scopes: ['read', 'write'],
+      metadata: { tier: 'pro' },
+    });
+    const after = await app.inject({ url: '/data', headers: { 'X-API-Key': key } });
+
+    expect(before.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({ scopes: ['read', 'write'], metadata: { tier: 'pro' } });
+    expect(after.statusCode).toBe(200);
+  });
+
+  it('should reject empty updates', async () => {
+    const { record } = await createApiKey(store);
+
+    expect((await admin('PATCH', `/${record.id}`, {})).statusCode).toBe(400);
+  });
+
+  it('should rotate a key and revoke the old one', async () => {
+    const { key, record } = await createApiKey(store, { name: 'app', scopes: ['read'] });
+    app.get('/data', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    const response = await admin('POST', `/${record.id}/rotate`);
+    const rotated = response.json();
+
+    expect(response.statusCode).toBe(201);
+    expect(rotated.record).toMatchObject({ name: 'app', scopes: ['read'] });
+    expect(rotated.record.id).not.toBe(record.id);
+    expect((await app.inject({ url: '/data', headers: { 'X-API-Key': key } })).statusCode).toBe(
+      401
+    );
+    expect(
+      (await app.inject({ url: '/data', headers: { 'X-API-Key': rotated.key } })).statusCode
+    ).toBe(200);
+  });
+
+  it('should not rotate revoked keys', async () => {
+    const { record } = await createApiKey(store);
+    await store.revoke(record.id);
+
+    const response = await admin('POST', `/${record.id}/rotate`);
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json()).toMatchObject({ error: 'API_KEY_REVOKED' });
+  });
+
+  it('should revoke a key', async () => {
+    const { key, record } = await createApiKey(store);
+    app.get('/data', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    const response = await admin('POST', `/${record.id}/revoke`);
+    const denied = await app.inject({ url: '/data', headers: { 'X-API-Key': key } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().revokedAt).toEqual(expect.any(String));
+    expect(denied.json().message).toBe('API key has been revoked');
+  });
+
+  it('should reject revoked and rotated keys at once when validation is cached', async () => {
+    await app.close();
+    app = await createTestApp({ validate: validateFromStore(store), cache: true });
+    await app.register(fastifyApiKeyAdmin, { prefix: '/admin/keys', store, keyPrefix: 'sk' });
+    app.get('/data', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+    const revoked = await createApiKey(store);
+    const rotated = await createApiKey(store);
+    const get = (key: string) => app.inject({ url: '/data', headers: { 'X-API-Key': key } });
+
+    expect((await get(revoked.key)).statusCode).toBe(200);
+    expect((await get(rotated.key)).statusCode).toBe(200);
+    await admin('POST', `/${revoked.record.id}/revoke`);
+    await admin('POST', `/${rotated.record.id}/rotate`);
+
+    expect((await get(revoked.key)).json()).toMatchObject({ code: 'REVOKED_API_KEY' });
+    expect((await get(rotated.key)).json()).toMatchObject({ code: 'REVOKED_API_KEY' });
+  });
+
+  it('should apply scope changes at once when validation is cached', async () => {
+    await app.close();
+    app = await createTestApp({ validate: validateFromStore(store), cache: true });
+    await app.register(fastifyApiKeyAdmin, { prefix: '/admin/keys', store, keyPrefix: 'sk' });
+    app.get('/data', { preHandler: app.apiKey({ scopes: ['write'] }) }, async () => ({ ok: true }));
+    const { key, record } = await createApiKey(store, { scopes: ['read', 'write'] });
+    const get = () => app.inject({ url: '/data', headers: { 'X-API-Key': key } });
+
+    expect((await get()).statusCode).toBe(200);
+    await admin('PATCH', `/${record.id}`, { scopes: ['read'] });
+
+    expect((await get()).statusCode).toBe(403);
+  });
+
+  it('should be detected by route protection', async () => {
+    const routes: { url: string; protected: boolean }[] = [];
+    const protectedApp = await createTestApp({
+      validate: validateFromStore(store),
+      protectRoutes: { report: (report) => routes.push(...report) },
+    });
+    await protectedApp.register(fastifyApiKeyAdmin, { prefix: '/admin', store });
+    await protectedApp.ready();
+
+    expect(routes.length).toBeGreaterThan(0);
+    expect(routes.every((route) => route.protected)).toBe(true);
+    await protectedApp.close();
+  });
+
+  it('should fail without the main plugin', async () => {
+    const bare = Fastify({ logger: false });
+    bare.register(fastifyApiKeyAdmin, { store });
+
+    await expect(bare.ready()).rejects.toThrow('fastify-api-key must be registered');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fastifyApiKey, {
+  InMemoryApiKeyStore,
+  createApiKey,
+  fastifyApiKeyAdmin,
+  fingerprintApiKey,
+  type ApiKeyAuditEvent,
+} from '../src/index.js';
+import { createTestApp } from './helpers.js';
+
+const KEY = 'sk_test_audit_key_0123456789';
+
+describe('audit log', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const setup = async (events: ApiKeyAuditEvent[]): Promise<void> => {
+    app = await createTestApp({
+      validate: async (key) =>
+        key === KEY ? { valid: true, keyId: 'key1', scopes: ['read'] } : { valid: false },
+      audit: { sinks: [(event) => void events.push(event)] },
+    });
+    app.get('/read', { preHandler: app.apiKey({ scopes: ['read'] }) }, async () => ({}));
+    app.get('/write', { preHandler: app.apiKey({ scopes: ['write'] }) }, async () => ({}));
+  };
+
+  it('should emit auth.success with request details', async () => {
+    const events: ApiKeyAuditEvent[] = [];
+    await setup(events);
+
+    await app.inject({
+      url: '/read',
+      headers: { 'X-API-Key': KEY, 'user-agent': 'audit-test/1.0' },
+    });
+
+    expect(events).toEqual([
+      {
+        type: 'auth.success',
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        requestId: expect.any(String),
+        route: '/read',
+        method: 'GET',
+        ip: '127.0.0.1',
+        userAgent: 'audit-test/1.0',
+        fingerprint: fingerprintApiKey(KEY),
+        keyId: 'key1',
+      },
+    ]);
+  });
+
+  it('should emit auth.failure with the reason', async () => {
+    const events: ApiKeyAuditEvent[] = [];
+    await setup(events);
+
+    await app.inject({ url: '/read' });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_wrong' } });
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'auth.failure', reason: 'MISSING_API_KEY' }),
+      expect.objectContaining({
+        type: 'auth.failure',
+        reason: 'INVALID_API_KEY',
+        fingerprint: fingerprintApiKey('sk_wrong'),
+      }),
+    ]);
+  });
+
+  it('should emit scope.denied with missing scopes', async () => {
+    const events: ApiKeyAuditEvent[] = [];
+    await setup(events);
+
+    await app.inject({ url: '/write', headers: { 'X-API-Key': KEY } });
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'scope.denied',
+        reason: 'INSUFFICIENT_SCOPES',
+        keyId: 'key1',
+        details: { missing: ['write'], granted: ['read'] },
+      }),
+    ]);
+  });
+
+  it('should never include the key', async () => {
+    const events: ApiKeyAuditEvent[] = [];
+    await setup(events);
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/write', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_wrong' } });
+
+    expect(events).toHaveLength(3);
+    expect(JSON.stringify(events)).not.toContain(KEY);
+    expect(JSON.stringify(events)).not.toContain('sk_wrong');
+  });
+
+  it('should not break requests when a sink fails', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true }),
+      audit: {
+        sinks: [
+          () => {
+            throw new Error('sync failure');
+          },
+          async () => {
+            throw new Error('async failure');
+          },
+        ],
+      },
+    });
+    const error = vi.spyOn(app.log, 'error');
+    app.get('/read', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    const response = await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(response.statusCode).toBe(200);
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log events through the logger sink', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true }), audit: true });
+    const info = vi.spyOn(app.log, 'info');
+    app.get('/read', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+
+    expect(info).toHaveBeenCalledWith(
+      { audit: expect.objectContaining({ type: 'auth.success' }) },
+      'auth.success'
+    );
+  });
+
+  it('should append NDJSON to a file sink', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fastify-api-key-'));
+    const file = join(dir, 'audit.ndjson');
+    app = await createTestApp({
+      validate: async (key) => ({ valid: key === KEY }),
+      audit: { sinks: [{ file }] },
+    });
+    app.get('/read', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_wrong' } });
+    await app.close();
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => (JSON.parse(line) as ApiKeyAuditEvent).type)).toEqual([
+      'auth.success',
+      'auth.failure',
+    ]);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should emit nothing when disabled', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true }) });
+    const info = vi.spyOn(app.log, 'info');
+    app.get('/read', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+
+    expect(info).not.toHaveBeenCalledWith({ audit: expect.anything() }, expect.any(String));
+  });
+
+  it('should emit key events from the admin routes', async () => {
+    const events: ApiKeyAuditEvent[] = [];
+    const store = new InMemoryApiKeyStore();
+    const { key: adminKey, record: adminRecord } = await createApiKey(store, {
+      scopes: ['api-keys:admin'],
+    });
+    app = Fastify({ logger: false });
+    await app.register(fastifyApiKey, {
+      store,
+      audit: { sinks: [(event) => void events.push(event)] },
+    });
+    await app.register(fastifyApiKeyAdmin, { prefix: '/keys', store });
+    const headers = { 'X-API-Key': adminKey };
+
+    const created = (
+      await app.inject({ method: 'POST', url: '/keys', headers, payload: {} })
+    ).json();
+    const id = String(created.record.id);
+    await app.inject({ method: 'PATCH', url: `/keys/${id}`, headers, payload: { name: 'ci' } });
+    const rotated = (
+      await app.inject({ method: 'POST', url: `/keys/${id}/rotate`, headers })
+    ).json();
+    await app.inject({ method: 'POST', url: `/keys/${String(rotated.record.id)}/revoke`, headers });
+
+    const keyEvents = events.filter((event) => event.type.startsWith('key.'));
+    expect(keyEvents).toEqual([
+      expect.objectContaining({ type: 'key.created', subject: id, keyId: adminRecord.id }),
+      expect.objectContaining({ type: 'key.updated', subject: id, details: { fields: ['name'] } }),
+      expect.objectContaining({
+        type: 'key.rotated',
+        subject: id,
+        details: { replacedBy: rotated.record.id },
+      }),
+      expect.objectContaining({ type: 'key.revoked', subject: rotated.record.id }),
+    ]);
+    expect(JSON.stringify(events)).not.toContain(created.key);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { createApiKeyCache } from '../src/cache.js';
+import { createTestApp } from './helpers.js';
+
+describe('createApiKeyCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return cached results', () => {
+    const cache = createApiKeyCache();
+    cache.set('key', { valid: true, scopes: ['read'] });
+
+    expect(cache.get('key')).toEqual({ valid: true, scopes: ['read'] });
+    expect(cache.get('other')).toBeUndefined();
+  });
+
+  it('should expire valid and invalid results with separate TTLs', () => {
+    vi.useFakeTimers();
+    const cache = createApiKeyCache({ ttl: 1000, negativeTtl: 100 });
+    cache.set('good', { valid: true });
+    cache.set('bad', { valid: false });
+
+    vi.advanceTimersByTime(150);
+    expect(cache.get('good')).toBeDefined();
+    expect(cache.get('bad')).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('good')).toBeUndefined();
+  });
+
+  it('should not cache invalid results when negativeTtl is 0', () => {
+    const cache = createApiKeyCache({ negativeTtl: 0 });
+    cache.set('bad', { valid: false });
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should evict least recently used entries', () => {
+    const cache = createApiKeyCache({ maxSize: 2 });
+    cache.set('a', { valid: true });
+    cache.set('b', { valid: true });
+    cache.get('a');
+    cache.set('c', { valid: true });
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should invalidate and clear entries', () => {
+    const cache = createApiKeyCache();
+    cache.set('a', { valid: true });
+    cache.set('b', { valid: true });
+
+    expect(cache.invalidate('a')).toBe(true);
+    expect(cache.invalidate('a')).toBe(false);
+    expect(cache.get('a')).toBeUndefined();
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should invalidate the results of a key ID', () => {
+    const cache = createApiKeyCache();
+    cache.set('a', { valid: true, keyId: 'key1' });
+    cache.set('b', { valid: true, keyId: 'key1' });
+    cache.set('c', { valid: true, keyId: 'key2' });
+
+    expect(cache.invalidateKeyId('key1')).toBe(2);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('c')).toEqual({ valid: true, keyId: 'key2' });
+  });
+});
+
+describe('validation cache in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it('should call validate once per key while cached', async () => {
+    let calls = 0;
+    app = await createTestApp({
+      cache: true,
+      validate: async (key) => {
+        calls++;
+        return { valid: key === 'good-key', scopes: ['read'] };
+      },
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    for (let i = 0; i < 3; i++) {
+      const good = await app.inject({ url: '/test', headers: { 'X-API-Key': 'good-key' } });
+      const bad = await app.inject({ url: '/test', headers: { 'X-API-Key': 'bad-key' } });
+      expect(good.statusCode).toBe(200);
+      expect(bad.statusCode).toBe(401);
+    }
+
+    expect(calls).toBe(2);
+  });
+
+  it('should revalidate after fastify.apiKeyCache.invalidate()', async () => {
+    let valid = true;
+    app = await createTestApp({
+      cache: { ttl: 60_000 },
+      validate: async () => ({ valid }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    const inject = () => app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+
+    expect((await inject()).statusCode).toBe(200);
+    valid = false;
+    expect((await inject()).statusCode).toBe(200);
+
+    app.apiKeyCache.invalidate('key');
+    expect((await inject()).statusCode).toBe(401);
+  });
+
+  it('should not cache when the option is not set', async () => {
+    let calls = 0;
+    app = await createTestApp({
+      validate: async () => {
+        calls++;
+        return { valid: true };
+      },
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+    await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+
+    expect(calls).toBe(2);
+    expect(app.apiKeyCache.size).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import diagnosticsChannel from 'node:diagnostics_channel';
+import type { FastifyInstance } from 'fastify';
+import type { ApiKeyValidateContext } from '../src/diagnostics.js';
+import { fingerprintApiKey } from '../src/utils.js';
+import { signRequest } from '../src/signing.js';
+import { createTestApp } from './helpers.js';
+
+const KEY = 'sk_test_diagnostics';
+
+describe('diagnostics channels', () => {
+  let app: FastifyInstance;
+  const cleanups: (() => void)[] = [];
+
+  const collect = (name: string): unknown[] => {
+    const messages: unknown[] = [];
+    const listener = (message: unknown): void => {
+      messages.push(message);
+    };
+    diagnosticsChannel.subscribe(name, listener);
+    cleanups.push(() => diagnosticsChannel.unsubscribe(name, listener));
+    return messages;
+  };
+
+  afterEach(async () => {
+    cleanups.splice(0).forEach((cleanup) => {
+      cleanup();
+    });
+    await app.close();
+  });
+
+  const setup = async (): Promise<void> => {
+    app = await createTestApp({
+      validate: async (key) => {
+        if (key === 'throw') {
+          throw new Error('database down');
+        }
+        return key === KEY ? { valid: true, keyId: 'key1', scopes: ['read'] } : { valid: false };
+      },
+    });
+    app.get('/read', { preHandler: app.apiKey({ scopes: ['read'] }) }, async () => ({}));
+    app.get('/write', { preHandler: app.apiKey({ requires: 'write OR admin' }) }, async () => ({}));
+    app.get('/optional', { preHandler: app.apiKey({ allowAnonymous: true }) }, async () => ({}));
+  };
+
+  it('should publish extraction, scope check and decision events', async () => {
+    const extract = collect('fastify-api-key:extract');
+    const scopeCheck = collect('fastify-api-key:scope-check');
+    const decision = collect('fastify-api-key:decision');
+    await setup();
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    const context = {
+      route: '/read',
+      method: 'GET',
+      requestId: expect.any(String),
+      source: 'header',
+      fingerprint: fingerprintApiKey(KEY),
+    };
+
+    expect(extract).toEqual([{ ...context, found: true }]);
+    expect(scopeCheck).toEqual([
+      {
+        ...context,
+        keyId: 'key1',
+        granted: ['read'],
+        required: { scopes: ['read'], anyScope: undefined, requires: undefined },
+        passed: true,
+      },
+    ]);
+    expect(decision).toEqual([
+      { ...context, keyId: 'key1', outcome: 'success', errorCode: undefined },
+    ]);
+  });
+
+  it('should publish failed scope checks and denials', async () => {
+    const scopeCheck = collect('fastify-api-key:scope-check');
+    const decision = collect('fastify-api-key:decision');
+    await setup();
+
+    await app.inject({ url: '/write', headers: { 'X-API-Key': KEY } });
+
+    expect(scopeCheck).toEqual([
+      expect.objectContaining({
+        required: { scopes: undefined, anyScope: undefined, requires: 'write OR admin' },
+        passed: false,
+      }),
+    ]);
+    expect(decision).toEqual([
+      expect.objectContaining({ outcome: 'insufficient_scopes', errorCode: 'INSUFFICIENT_SCOPES' }),
+    ]);
+  });
+
+  it('should publish missing keys and anonymous access', async () => {
+    const extract = collect('fastify-api-key:extract');
+    const decision = collect('fastify-api-key:decision');
+    await setup();
+
+    await app.inject({ url: '/read' });
+    await app.inject({ url: '/optional' });
+
+    expect(extract).toEqual([
+      expect.objectContaining({ route: '/read', found: false, source: undefined }),
+      expect.objectContaining({ route: '/optional', found: false }),
+    ]);
+    expect(decision).toEqual([
+      expect.objectContaining({ outcome: 'missing', errorCode: 'MISSING_API_KEY' }),
+      expect.objectContaining({ route: '/optional', outcome: 'anonymous' }),
+    ]);
+  });
+
+  it('should trace validate calls', async () => {
+    const events: [string, ApiKeyValidateContext][] = [];
+    const channel = diagnosticsChannel.tracingChannel<unknown, ApiKeyValidateContext>(
+      'fastify-api-key:validate'
+    );
+    const handlers = {
+      start: (context: ApiKeyValidateContext): void => void events.push(['start', { ...context }]),
+      end: (): void => undefined,
+      asyncStart: (): void => undefined,
+      asyncEnd: (context: ApiKeyValidateContext): void =>
+        void events.push(['asyncEnd', { ...context }]),
+      error: (context: ApiKeyValidateContext): void => void events.push(['error', { ...context }]),
+    };
+    channel.subscribe(handlers);
+    cleanups.push(() => {
+      channel.unsubscribe(handlers);
+    });
+    await setup();
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'throw' } });
+
+    expect(events.map(([name]) => name)).toEqual([
+      'start',
+      'asyncEnd',
+      'start',
+      'error',
+      'asyncEnd',
+    ]);
+    expect(events[0]?.[1]).toEqual(
+      expect.objectContaining({ route: '/read', fingerprint: fingerprintApiKey(KEY) })
+    );
+    expect(events[1]?.[1].result).toEqual(expect.objectContaining({ valid: true, keyId: 'key1' }));
+    expect(events[3]?.[1].error).toEqual(new Error('database down'));
+  });
+
+  it('should not publish signing secrets', async () => {
+    const results: unknown[] = [];
+    const channel = diagnosticsChannel.tracingChannel<unknown, ApiKeyValidateContext>(
+      'fastify-api-key:validate'
+    );
+    const handlers = {
+      start: (): void => undefined,
+      end: (): void => undefined,
+      asyncStart: (): void => undefined,
+      asyncEnd: (context: ApiKeyValidateContext): void => void results.push(context.result),
+      error: (): void => undefined,
+    };
+    channel.subscribe(handlers);
+    cleanups.push(() => {
+      channel.unsubscribe(handlers);
+    });
+    app = await createTestApp({
+      validate: async () => ({ valid: false }),
+      signing: {
+        validate: async (keyId) => ({ valid: true, keyId, signingSecret: 'topsecret' }),
+      },
+    });
+    app.get('/signed', { preHandler: app.apiKey({ signed: true }) }, async () => ({}));
+
+    const response = await app.inject({
+      url: '/signed',
+      headers: {
+        host: 'localhost:80',
+        ...signRequest({
+          keyId: 'partner1',
+          secret: 'topsecret',
+          method: 'GET',
+          url: '/signed',
+          headers: { host: 'localhost:80' },
+        }),
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(results).toEqual([{ valid: true, keyId: 'partner1' }]);
+    expect(JSON.stringify(results)).not.toContain('topsecret');
+  });
+
+  it('should never publish the key', async () => {
+    const extract = collect('fastify-api-key:extract');
+    const scopeCheck = collect('fastify-api-key:scope-check');
+    const decision = collect('fastify-api-key:decision');
+    await setup();
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/write', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_invalid' } });
+
+    const published = JSON.stringify([...extract, ...scopeCheck, ...decision]);
+    expect(decision).toHaveLength(3);
+    expect(published).not.toContain(KEY);
+    expect(published).not.toContain('sk_invalid');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FastifyInstance } from 'fastify';
+import { keysFromEnv } from '../src/env.js';
+import { hashApiKey } from '../src/hashing.js';
+import { createTestApp } from './helpers.js';
+
+describe('keysFromEnv', () => {
+  let ciHash: string;
+  let reportsHash: string;
+
+  beforeAll(async () => {
+    ciHash = await hashApiKey('ci-secret-key');
+    reportsHash = await hashApiKey('reports-secret-key');
+  });
+
+  it('should parse names, hashes and scopes', () => {
+    const { keys } = keysFromEnv({
+      env: { API_KEYS: `ci:${ciHash}:deploy, read;reports:${reportsHash}` },
+    });
+
+    expect(keys).toEqual([
+      { name: 'ci', hash: ciHash, scopes: ['deploy', 'read'] },
+      { name: 'reports', hash: reportsHash, scopes: [] },
+    ]);
+  });
+
+  it('should accept namespaced scopes', () => {
+    const { keys } = keysFromEnv({ env: { API_KEYS: `ci:${ciHash}:repo:read,repo:write` } });
+
+    expect(keys).toEqual([{ name: 'ci', hash: ciHash, scopes: ['repo:read', 'repo:write'] }]);
+  });
+
+  it('should accept newlines and ignore empty entries', () => {
+    const { keys } = keysFromEnv({
+      env: { API_KEYS: `\nci:${ciHash}:deploy;\n\nreports:${reportsHash}:read\n` },
+    });
+
+    expect(keys.map((key) => key.name)).toEqual(['ci', 'reports']);
+  });
+
+  it('should return no keys when the variable is not set', () => {
+    expect(keysFromEnv({ env: {} }).keys).toEqual([]);
+  });
+
+  it('should read a custom variable', () => {
+    const { keys } = keysFromEnv({
+      variable: 'SERVICE_KEYS',
+      env: { SERVICE_KEYS: `ci:${ciHash}` },
+    });
+
+    expect(keys).toHaveLength(1);
+  });
+
+  it.each([
+    ['a missing hash', 'ci', /does not have a hash/],
+    ['an invalid name', 'c i:$sha256$v=1$abc', /expected "name:hash/],
+    ['a plaintext key', 'ci:my-secret-key:read', /does not have a hash/],
+    ['a truncated digest', 'ci:$sha256$v=1$x:read', /does not have a hash/],
+    ['bad scrypt parameters', `ci:$scrypt$v=1,n=3,r=8,p=1$c2FsdA$${'A'.repeat(43)}`, /hash/],
+  ])('should reject entries with %s', (_name, value, error) => {
+    expect(() => keysFromEnv({ env: { API_KEYS: value } })).toThrow(error);
+  });
+
+  it('should reject duplicate names', () => {
+    expect(() => keysFromEnv({ env: { API_KEYS: `ci:${ciHash};ci:${reportsHash}` } })).toThrow(
+      'Invalid API_KEYS entry 2: duplicate name "ci"'
+    );
+  });
+
+  it('should not include entries in errors', () => {
+    expect(() => keysFromEnv({ env: { API_KEYS: `c i:${ciHash}:a` } })).toThrow(
+      /^Invalid API_KEYS entry 1: expected "name:hash:scope1,scope2"$/
+    );
+  });
+
+  describe('_FILE variant', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read keys from the file', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'fastify-api-key-'));
+      const file = join(dir, 'api_keys');
+      await writeFile(file, `ci:${ciHash}:deploy\nreports:${reportsHash}:read\n`);
+
+      const { keys } = keysFromEnv({ env: { API_KEYS_FILE: file } });
+
+      expect(keys.map((key) => key.scopes)).toEqual([['deploy'], ['read']]);
+    });
+
+    it('should reject both variants at once', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'fastify-api-key-'));
+
+      expect(() =>
+        keysFromEnv({ env: { API_KEYS: `ci:${ciHash}`, API_KEYS_FILE: join(dir, 'keys') } })
+      ).toThrow('Set either API_KEYS or API_KEYS_FILE, not both');
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept configured keys', async () => {
+      const { validate } = keysFromEnv({
+        env: { API_KEYS: `ci:${ciHash}:deploy;reports:${reportsHash}:read` },
+      });
+
+      expect(await validate('reports-secret-key', {} as any)).toEqual({
+        valid: true,
+        keyId: 'reports',
+        scopes: ['read'],
+        metadata: {},
+      });
+      expect(await validate('unknown-key', {} as any)).toEqual({ valid: false });
+    });
+
+    it('should use the configured pepper', async () => {
+      const pepperedHash = await hashApiKey('ci-secret-key', { pepper: 'pepper' });
+      const env = { API_KEYS: `ci:${pepperedHash}` };
+
+      expect(
+        (
+          await keysFromEnv({ env, hash: { pepper: 'pepper' } }).validate(
+            'ci-secret-key',
+            {} as any
+          )
+        ).valid
+      ).toBe(true);
+      expect((await keysFromEnv({ env }).validate('ci-secret-key', {} as any)).valid).toBe(false);
+    });
+  });
+
+  describe('in plugin', () => {
+    let app: FastifyInstance;
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should authenticate keys from the environment', async () => {
+      const { validate } = keysFromEnv({ env: { API_KEYS: `ci:${ciHash}:deploy` } });
+      app = await createTestApp({ validate });
+      app.get('/deploy', { preHandler: app.apiKey({ scopes: ['deploy'] }) }, async (request) => ({
+        keyId: request.apiKey?.keyId,
+      }));
+
+      const valid = await app.inject({ url: '/deploy', headers: { 'X-API-Key': 'ci-secret-key' } });
+      const invalid = await app.inject({ url: '/deploy', headers: { 'X-API-Key': 'nope' } });
+
+      expect(valid.json()).toEqual({ keyId: 'ci' });
+      expect(invalid.statusCode).toBe(401);
+    });
+  });
+});
@@ -3,8 +3,16 @@ import {
   ApiKeyError,
   MissingApiKeyError,
   InvalidApiKeyError,
+  ExpiredApiKeyError,
+  RevokedApiKeyError,
   InsufficientScopesError,
+  IpNotAllowedError,
+  OriginNotAllowedError,
   RateLimitExceededError,
+  InvalidSignatureError,
+  StaleTimestampError,
+  ReplayedRequestError,
+  ExpiredSignedUrlError,
 } from '../src/errors.js';
 
 describe('ApiKeyError', () => {
@@ -62,6 +70,44 @@ describe('InvalidApiKeyError', () => {
   });
 });
 
+describe('ExpiredApiKeyError', () => {
+  it('should create error with expiry information', () => {
+    const expiresAt = new Date('2025-01-01T00:00:00.000Z');
+    const error = new ExpiredApiKeyError(expiresAt);
+
+    expect(error.name).toBe('ExpiredApiKeyError');
+    expect(error.code).toBe('EXPIRED_API_KEY');
+    expect(error.message).toBe('API key has expired');
+    expect(error.statusCode).toBe(401);
+    expect(error.expiresAt).toBe(expiresAt);
+  });
+
+  it('should serialize to JSON with expiry information', () => {
+    expect(new ExpiredApiKeyError(new Date('2025-01-01T00:00:00.000Z')).toJSON()).toEqual({
+      error: 'EXPIRED_API_KEY',
+      message: 'API key has expired',
+      statusCode: 401,
+      expiresAt: '2025-01-01T00:00:00.000Z',
+    });
+    expect(new ExpiredApiKeyError().toJSON()).toEqual({
+      error: 'EXPIRED_API_KEY',
+      message: 'API key has expired',
+      statusCode: 401,
+    });
+  });
+});
+
+describe('RevokedApiKeyError', () => {
+  it('should create error with correct properties', () => {
+    const error = new RevokedApiKeyError();
+
+    expect(error.name).toBe('RevokedApiKeyError');
+    expect(error.code).toBe('REVOKED_API_KEY');
+    expect(error.message).toBe('API key has been revoked');
+    expect(error.statusCode).toBe(401);
+  });
+});
+
 describe('InsufficientScopesError', () => {
   it('should create error with scope information', () => {
     const error = new InsufficientScopesError(['admin', 'write'], ['read']);
@@ -86,6 +132,40 @@ describe('InsufficientScopesError', () => {
       providedScopes: ['read', 'write'],
     });
   });
+
+  it('should describe the failed expression clause', () => {
+    const error = new InsufficientScopesError(['admin'], ['read'], 'orders:write OR admin');
+
+    expect(error.message).toBe('Insufficient scopes. Required: orders:write OR admin');
+    expect(error.clause).toBe('orders:write OR admin');
+    expect(error.toJSON()).toMatchObject({ clause: 'orders:write OR admin' });
+  });
+});
+
+describe('IpNotAllowedError', () => {
+  it('should create error with correct properties', () => {
+    const error = new IpNotAllowedError();
+
+    expect(error.name).toBe('IpNotAllowedError');
+    expect(error.code).toBe('IP_NOT_ALLOWED');
+    expect(error.message).toBe('API key is not allowed from this IP address');
+    expect(error.statusCode).toBe(403);
+  });
+});
+
+describe('OriginNotAllowedError', () => {
+  it('should create error with default message', () => {
+    const error = new OriginNotAllowedError();
+
+    expect(error.name).toBe('OriginNotAllowedError');
+    expect(error.code).toBe('ORIGIN_NOT_ALLOWED');
+    expect(error.message).toBe('API key is not allowed from this origin');
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('should create error with custom message', () => {
+    expect(new OriginNotAllowedError('Origin required').message).toBe('Origin required');
+  });
 });
 
 describe('RateLimitExceededError', () => {
@@ -111,3 +191,53 @@ describe('RateLimitExceededError', () => {
     });
   });
 });
+
+describe('InvalidSignatureError', () => {
+  it('should create error with default message', () => {
+    const error = new InvalidSignatureError();
+
+    expect(error.name).toBe('InvalidSignatureError');
+    expect(error.code).toBe('INVALID_SIGNATURE');
+    expect(error.message).toBe('Invalid request signature');
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('should create error with custom message', () => {
+    const error = new InvalidSignatureError('Missing signature headers');
+
+    expect(error.message).toBe('Missing signature headers');
+  });
+});
+
+describe('StaleTimestampError', () => {
+  it('should create error with correct properties', () => {
+    const error = new StaleTimestampError();
+
+    expect(error.name).toBe('StaleTimestampError');
+    expect(error.code).toBe('STALE_TIMESTAMP');
+    expect(error.message).toBe('Request timestamp is outside the allowed window');
+    expect(error.statusCode).toBe(401);
+  });
+});
+
+describe('ReplayedRequestError', () => {
+  it('should create error with correct properties', () => {
+    const error = new ReplayedRequestError();
+
+    expect(error.name).toBe('ReplayedRequestError');
+    expect(error.code).toBe('REPLAYED_REQUEST');
+    expect(error.message).toBe('Request has already been received');
+    expect(error.statusCode).toBe(401);
+  });
+});
+
+describe('ExpiredSignedUrlError', () => {
+  it('should create error with correct properties', () => {
+    const error = new ExpiredSignedUrlError();
+
+    expect(error.name).toBe('ExpiredSignedUrlError');
+    expect(error.code).toBe('EXPIRED_SIGNED_URL');
+    expect(error.message).toBe('Signed URL has expired');
+    expect(error.statusCode).toBe(401);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractApiKey } from '../src/extractors.js';
+import { extractApiKey, extractApiKeyWithSource } from '../src/extractors.js';
 import type { FastifyRequest } from 'fastify';
 
 describe('extractApiKey', () => {
@@ -214,3 +214,15 @@ describe('extractApiKey', () => {
     });
   });
 });
+
+describe('extractApiKeyWithSource', () => {
+  it('should return the key with the source it was found in', () => {
+    const query = { type: 'query' as const, name: 'api_key' };
+    const request = { headers: {}, query: { api_key: 'query-key' }, body: null } as FastifyRequest;
+
+    expect(
+      extractApiKeyWithSource(request, [{ type: 'header', name: 'X-API-Key' }, query])
+    ).toEqual({ key: 'query-key', source: query });
+    expect(extractApiKeyWithSource(request, [{ type: 'header', name: 'X-API-Key' }])).toBeNull();
+  });
+});
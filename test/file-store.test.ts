@@ -0,0 +1,306 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile, rename } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import { FileApiKeyStore } from '../src/file-store.js';
+import { createApiKey, validateFromStore } from '../src/store.js';
+import { hashApiKey } from '../src/hashing.js';
+import { createTestApp } from './helpers.js';
+
+async function waitFor(assertion: () => Promise<void> | void): Promise<void> {
+  const deadline = Date.now() + 2000;
+  for (;;) {
+    try {
+      await assertion();
+      return;
+    } catch (err) {
+      if (Date.now() > deadline) {
+        throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+}
+
+// Well-formed hashes, as the file store rejects anything else
+const HASH1 = `$sha256$v=1$${'1'.repeat(43)}`;
+const HASH2 = `$sha256$v=1$${'2'.repeat(43)}`;
+
+function createLogger(): FastifyBaseLogger {
+  return { info: vi.fn(), error: vi.fn() } as unknown as FastifyBaseLogger;
+}
+
+describe('FileApiKeyStore', () => {
+  let dir: string;
+  let path: string;
+  let store: FileApiKeyStore | undefined;
+
+  const writeKeys = async (keys: unknown[], target = path): Promise<void> => {
+    // Replace atomically, like the store and most editors do
+    await writeFile(`${target}.tmp`, JSON.stringify({ keys }));
+    await rename(`${target}.tmp`, target);
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fastify-api-key-'));
+    path = join(dir, 'keys.json');
+  });
+
+  afterEach(async () => {
+    await store?.close();
+    store = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load keys from the file', async () => {
+    await writeKeys([
+      {
+        id: 'key1',
+        hash: HASH1,
+        name: 'CI',
+        scopes: ['read'],
+        metadata: { team: 'infra' },
+        createdAt: '2025-01-01T00:00:00.000Z',
+        expiresAt: '2099-01-01T00:00:00.000Z',
+      },
+      { id: 'key2', hash: HASH2 },
+    ]);
+    store = new FileApiKeyStore({ path, watch: false });
+    await store.start();
+
+    expect(await store.findById('key1')).toEqual({
+      id: 'key1',
+      hash: HASH1,
+      name: 'CI',
+      scopes: ['read'],
+      metadata: { team: 'infra' },
+      createdAt: new Date('2025-01-01T00:00:00.000Z'),
+      expiresAt: new Date('2099-01-01T00:00:00.000Z'),
+      revokedAt: undefined,
+    });
+    expect((await store.findByHash(HASH2))?.scopes).toEqual([]);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('should fail to start with a missing or malformed file', async () => {
+    store = new FileApiKeyStore({ path, watch: false });
+    await expect(store.start()).rejects.toThrow(/ENOENT/);
+
+    await writeKeys([{ id: 'key1' }]);
+    await expect(store.start()).rejects.toThrow(
+      `Invalid API key file "${path}": keys[0].hash must be a hash from hashApiKey`
+    );
+  });
+
+  it.each([
+    ['not an object', '[]', /"keys" array/],
+    ['invalid JSON', '{', /Invalid API key file/],
+    ['bad scopes', { keys: [{ id: 'a', hash: HASH1, scopes: 'read' }] }, /scopes must be an array/],
+    ['bad dates', { keys: [{ id: 'a', hash: HASH1, expiresAt: 'soon' }] }, /expiresAt must be/],
+    [
+      'duplicates',
+      {
+        keys: [
+          { id: 'a', hash: HASH1 },
+          { id: 'a', hash: HASH2 },
+        ],
+      },
+      /duplicates/,
+    ],
+    ['a plaintext key', { keys: [{ id: 'a', hash: 'sk_live_secret' }] }, /must be a hash/],
+    ['a malformed hash', { keys: [{ id: 'a', hash: '$sha256$abc' }] }, /must be a hash/],
+  ])('should reject files with %s', async (_name, content, error) => {
+    await writeFile(path, typeof content === 'string' ? content : JSON.stringify(content));
+    store = new FileApiKeyStore({ path, watch: false });
+
+    await expect(store.load()).rejects.toThrow(error);
+  });
+
+  it('should require a parser for non-JSON files', () => {
+    expect(() => new FileApiKeyStore({ path: join(dir, 'keys.yaml') })).toThrow(
+      /pass a parse function/
+    );
+  });
+
+  it('should use a custom parser', async () => {
+    const yamlPath = join(dir, 'keys.yaml');
+    await writeFile(yamlPath, `key1 ${HASH1} read,write\n`);
+    store = new FileApiKeyStore({
+      path: yamlPath,
+      watch: false,
+      parse: (content) => ({
+        keys: content
+          .trim()
+          .split('\n')
+          .map((line) => {
+            const [id, hash, scopes = ''] = line.split(' ');
+            return { id, hash, scopes: scopes.split(',') };
+          }),
+      }),
+    });
+    await store.start();
+
+    expect((await store.findById('key1'))?.scopes).toEqual(['read', 'write']);
+    await expect(store.revoke('key1')).rejects.toThrow(/read-only/);
+  });
+
+  it('should reload the file when it changes', async () => {
+    await writeKeys([{ id: 'key1', hash: HASH1 }]);
+    const log = createLogger();
+    store = new FileApiKeyStore({ path, debounce: 10 });
+    await store.start(log);
+
+    await writeKeys([{ id: 'key2', hash: HASH2 }]);
+
+    await waitFor(async () => {
+      expect(await store?.findById('key2')).not.toBeNull();
+    });
+    expect(await store.findById('key1')).toBeNull();
+    expect(log.info).toHaveBeenCalledWith({ path, keys: 1 }, 'API key file reloaded');
+  });
+
+  it('should keep the last good version when the file becomes malformed', async () => {
+    await writeKeys([{ id: 'key1', hash: HASH1 }]);
+    const log = createLogger();
+    store = new FileApiKeyStore({ path, debounce: 10 });
+    await store.start(log);
+
+    await writeFile(path, '{"keys": [');
+
+    await waitFor(() => {
+      expect(log.error).toHaveBeenCalled();
+    });
+    expect(await store.findById('key1')).not.toBeNull();
+  });
+
+  it('should write changes atomically', async () => {
+    await writeKeys([]);
+    store = new FileApiKeyStore({ path, watch: false });
+    await store.start();
+
+    const { record } = await createApiKey(store, { name: 'CI', scopes: ['deploy'] });
+    await store.revoke(record.id);
+
+    const file = JSON.parse(await readFile(path, 'utf8'));
+    expect(file.keys).toEqual([
+      expect.objectContaining({
+        id: record.id,
+        hash: record.hash,
+        name: 'CI',
+        scopes: ['deploy'],
+        revokedAt: expect.any(String),
+      }),
+    ]);
+    expect(await readdir(dir)).toEqual(['keys.json']);
+
+    const reloaded = new FileApiKeyStore({ path, watch: false });
+    await reloaded.load();
+    expect((await reloaded.findById(record.id))?.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('should not lose concurrent writes', async () => {
+    await writeKeys([]);
+    const concurrent = new FileApiKeyStore({ path, watch: false });
+    await concurrent.start();
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((id) => concurrent.create({ id, hash: `$sha256$v=1$${id.repeat(43)}` }))
+    );
+
+    expect(JSON.parse(await readFile(path, 'utf8')).keys).toHaveLength(3);
+  });
+
+  it('should stop watching on close', async () => {
+    await writeKeys([{ id: 'key1', hash: HASH1 }]);
+    store = new FileApiKeyStore({ path, debounce: 10 });
+    await store.start();
+    await store.close();
+
+    await writeKeys([{ id: 'key2', hash: HASH2 }]);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(await store.findById('key2')).toBeNull();
+  });
+});
+
+describe('store option', () => {
+  let app: FastifyInstance | undefined;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fastify-api-key-'));
+  });
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should validate keys from a file store and pick up changes', async () => {
+    const path = join(dir, 'keys.json');
+    const key = 'sk_internal_service_key';
+    await writeFile(
+      path,
+      JSON.stringify({ keys: [{ id: 'svc', hash: await hashApiKey(key), scopes: ['read'] }] })
+    );
+    const store = new FileApiKeyStore({ path, debounce: 10 });
+
+    app = await createTestApp({ store });
+    app.get('/test', { preHandler: app.apiKey({ scopes: ['read'] }) }, async (request) => ({
+      keyId: request.apiKey?.keyId,
+    }));
+
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+    expect(response.json()).toEqual({ keyId: 'svc' });
+
+    await writeFile(
+      `${path}.tmp`,
+      JSON.stringify({ keys: [{ id: 'svc', hash: await hashApiKey(key), scopes: [] }] })
+    );
+    await rename(`${path}.tmp`, path);
+
+    await waitFor(async () => {
+      const denied = await app?.inject({ url: '/test', headers: { 'X-API-Key': key } });
+      expect(denied?.statusCode).toBe(403);
+    });
+  });
+
+  it('should fail to register with a malformed file', async () => {
+    const path = join(dir, 'keys.json');
+    await writeFile(path, 'nope');
+
+    await expect(createTestApp({ store: new FileApiKeyStore({ path }) })).rejects.toThrow(
+      /Invalid API key file/
+    );
+  });
+
+  it('should close the store with the server', async () => {
+    const path = join(dir, 'keys.json');
+    await writeFile(path, '{"keys":[]}');
+    const store = new FileApiKeyStore({ path });
+    const close = vi.spyOn(store, 'close');
+
+    app = await createTestApp({ store });
+    await app.close();
+    app = undefined;
+
+    expect(close).toHaveBeenCalledOnce();
+  });
+
+  it('should prefer an explicit validate function', async () => {
+    const store = new FileApiKeyStore({ path: join(dir, 'keys.json'), watch: false });
+    await writeFile(join(dir, 'keys.json'), '{"keys":[]}');
+
+    app = await createTestApp({ store, validate: validateFromStore(store, { rehash: false }) });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'unknown' } });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should require validate or store', async () => {
+    await expect(createTestApp({})).rejects.toThrow('requires a validate function or a store');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { hashApiKey, isApiKeyHash, verifyApiKey } from '../src/hashing.js';
+
+const FAST_SCRYPT = { cost: 1024, blockSize: 8, parallelization: 1 };
+
+// A 32-byte digest in base64url
+const DIGEST = 'A'.repeat(43);
+
+describe('hashApiKey', () => {
+  it('should produce a self-describing sha256 hash by default', async () => {
+    const hash = await hashApiKey('sk_test_abc');
+    expect(hash).toMatch(/^\$sha256\$v=1\$[A-Za-z0-9_-]+$/);
+  });
+
+  it('should be deterministic for sha256 so keys can be looked up by hash', async () => {
+    expect(await hashApiKey('sk_test_abc')).toBe(await hashApiKey('sk_test_abc'));
+    expect(await hashApiKey('sk_test_abc', { pepper: 'pepper' })).toBe(
+      await hashApiKey('sk_test_abc', { pepper: 'pepper' })
+    );
+  });
+
+  it('should change the sha256 digest when a pepper is used', async () => {
+    expect(await hashApiKey('sk_test_abc', { pepper: 'pepper' })).not.toBe(
+      await hashApiKey('sk_test_abc')
+    );
+  });
+
+  it('should produce salted scrypt hashes with encoded parameters', async () => {
+    const first = await hashApiKey('sk_test_abc', { algorithm: 'scrypt', scrypt: FAST_SCRYPT });
+    const second = await hashApiKey('sk_test_abc', { algorithm: 'scrypt', scrypt: FAST_SCRYPT });
+
+    expect(first).toMatch(/^\$scrypt\$v=1,n=1024,r=8,p=1\$[A-Za-z0-9_-]+\$[A-Za-z0-9_-]+$/);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('verifyApiKey', () => {
+  it('should verify sha256 hashes', async () => {
+    const hash = await hashApiKey('sk_test_abc', { pepper: 'pepper' });
+
+    expect(await verifyApiKey('sk_test_abc', hash, { pepper: 'pepper' })).toEqual({
+      valid: true,
+      needsRehash: false,
+    });
+    expect((await verifyApiKey('sk_test_abd', hash, { pepper: 'pepper' })).valid).toBe(false);
+    expect((await verifyApiKey('sk_test_abc', hash)).valid).toBe(false);
+  });
+
+  it('should verify scrypt hashes', async () => {
+    const options = { algorithm: 'scrypt' as const, pepper: 'pepper', scrypt: FAST_SCRYPT };
+    const hash = await hashApiKey('sk_test_abc', options);
+
+    expect(await verifyApiKey('sk_test_abc', hash, options)).toEqual({
+      valid: true,
+      needsRehash: false,
+    });
+    expect((await verifyApiKey('sk_test_xyz', hash, options)).valid).toBe(false);
+  });
+
+  it('should flag hashes made with another algorithm for rehash', async () => {
+    const hash = await hashApiKey('sk_test_abc');
+    const result = await verifyApiKey('sk_test_abc', hash, {
+      algorithm: 'scrypt',
+      scrypt: FAST_SCRYPT,
+    });
+
+    expect(result).toEqual({ valid: true, needsRehash: true });
+  });
+
+  it('should flag scrypt hashes with weaker parameters for rehash', async () => {
+    const hash = await hashApiKey('sk_test_abc', { algorithm: 'scrypt', scrypt: FAST_SCRYPT });
+    const result = await verifyApiKey('sk_test_abc', hash, {
+      algorithm: 'scrypt',
+      scrypt: { ...FAST_SCRYPT, cost: 2048 },
+    });
+
+    expect(result).toEqual({ valid: true, needsRehash: true });
+  });
+
+  it('should never flag invalid keys for rehash', async () => {
+    const hash = await hashApiKey('sk_test_abc');
+    const result = await verifyApiKey('wrong', hash, { algorithm: 'scrypt' });
+
+    expect(result).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should reject malformed hashes', async () => {
+    for (const hash of [
+      '',
+      'plaintext',
+      '$md5$v=1$abc',
+      '$sha256$abc',
+      '$sha256$v=1',
+      '$sha256$v=x$abc',
+      '$scrypt$v=1,n=1024,r=8,p=1$onlysalt',
+      '$sha256$v=1$x',
+      `$scrypt$v=1,n=3,r=8,p=1$c2FsdA$${DIGEST}`,
+      `$scrypt$v=1,n=2,r=1,p=${String(2 ** 31)}$c2FsdA$${DIGEST}`,
+    ]) {
+      expect(await verifyApiKey('sk_test_abc', hash)).toEqual({ valid: false, needsRehash: false });
+    }
+  });
+});
+
+describe('isApiKeyHash', () => {
+  it('should recognise hashes from hashApiKey', async () => {
+    expect(isApiKeyHash(await hashApiKey('sk_test_abc'))).toBe(true);
+    expect(isApiKeyHash(`$scrypt$v=1,n=1024,r=8,p=1$c2FsdA$${DIGEST}`)).toBe(true);
+  });
+
+  it('should reject other strings', () => {
+    expect(isApiKeyHash('sk_test_abc')).toBe(false);
+    expect(isApiKeyHash('$md5$v=1$abc')).toBe(false);
+    expect(isApiKeyHash('')).toBe(false);
+  });
+
+  it('should reject hashes verifyApiKey cannot use', () => {
+    expect(isApiKeyHash('$sha256$v=1$x')).toBe(false);
+    expect(isApiKeyHash(`$sha256$v=1$${DIGEST}A`)).toBe(false);
+    expect(isApiKeyHash(`$sha256$v=1$${DIGEST.slice(1)}!`)).toBe(false);
+    expect(isApiKeyHash(`$scrypt$v=1,n=3,r=8,p=1$c2FsdA$${DIGEST}`)).toBe(false);
+    expect(isApiKeyHash(`$scrypt$v=1,n=1,r=8,p=1$c2FsdA$${DIGEST}`)).toBe(false);
+  });
+});
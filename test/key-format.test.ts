@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { generateStructuredApiKey, parseApiKey } from '../src/key-format.js';
+
+describe('generateStructuredApiKey', () => {
+  it('should generate a key with prefix, key ID, secret and checksum', () => {
+    const { key, keyId } = generateStructuredApiKey({ prefix: 'sk_live' });
+
+    expect(key).toMatch(/^sk_live_[A-Za-z0-9]{12}_[A-Za-z0-9]{32}_[0-9a-f]{8}$/);
+    expect(key.startsWith(`sk_live_${keyId}_`)).toBe(true);
+  });
+
+  it('should support custom lengths and no prefix', () => {
+    const { key, keyId } = generateStructuredApiKey({ keyIdLength: 8, secretLength: 40 });
+
+    expect(keyId).toHaveLength(8);
+    expect(key).toMatch(/^[A-Za-z0-9]{8}_[A-Za-z0-9]{40}_[0-9a-f]{8}$/);
+  });
+
+  it('should generate unique keys', () => {
+    const keys = new Set<string>();
+    for (let i = 0; i < 100; i++) {
+      keys.add(generateStructuredApiKey().key);
+    }
+    expect(keys.size).toBe(100);
+  });
+});
+
+describe('parseApiKey', () => {
+  it('should parse generated keys', () => {
+    const { key, keyId } = generateStructuredApiKey({ prefix: 'sk_live' });
+    const parsed = parseApiKey(key);
+
+    expect(parsed).not.toBeNull();
+    expect(parsed?.prefix).toBe('sk_live');
+    expect(parsed?.keyId).toBe(keyId);
+    expect(['sk_live', keyId, parsed?.secret, parsed?.checksum].join('_')).toBe(key);
+  });
+
+  it('should parse keys without prefix', () => {
+    const { key } = generateStructuredApiKey();
+    expect(parseApiKey(key)?.prefix).toBe('');
+  });
+
+  it('should reject keys with a bad checksum', () => {
+    const { key } = generateStructuredApiKey({ prefix: 'sk_live' });
+    const tampered = key.replace(
+      /_([A-Za-z0-9])([A-Za-z0-9]{31})_/,
+      (_, first: string, rest: string) => `_${first === 'a' ? 'b' : 'a'}${rest}_`
+    );
+
+    expect(tampered).not.toBe(key);
+    expect(parseApiKey(tampered)).toBeNull();
+  });
+
+  it('should reject malformed keys', () => {
+    expect(parseApiKey('')).toBeNull();
+    expect(parseApiKey('garbage')).toBeNull();
+    expect(parseApiKey('sk_live_abc')).toBeNull();
+    expect(parseApiKey('sk_live_abc_d-f_00000000')).toBeNull();
+    expect(parseApiKey('sk_live_abc_def_XYZ')).toBeNull();
+    expect(parseApiKey(null as any)).toBeNull();
+  });
+
+  it('should restrict accepted prefixes', () => {
+    const { key } = generateStructuredApiKey({ prefix: 'sk_test' });
+
+    expect(parseApiKey(key, { prefixes: ['sk_test', 'sk_live'] })).not.toBeNull();
+    expect(parseApiKey(key, { prefixes: ['sk_live'] })).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'node:stream';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fastifyApiKey, {
+  apiKeyLogBindings,
+  apiKeyRedactPaths,
+  createRedactionCensor,
+  createRequestRedactor,
+  fingerprintApiKey,
+  type ApiKeyData,
+  type FastifyApiKeyOptions,
+} from '../src/index.js';
+
+const KEY = 'sk_test_logging_key_0123456789';
+
+describe('apiKeyRedactPaths', () => {
+  it('should cover every source', () => {
+    expect(
+      apiKeyRedactPaths([
+        { type: 'header', name: 'X-API-Key' },
+        { type: 'header', name: 'Authorization', prefix: 'Bearer ' },
+        { type: 'query', name: 'api_key' },
+        { type: 'body', name: 'apiKey' },
+        { type: 'cookie', name: 'session' },
+      ])
+    ).toEqual([
+      'req.headers["x-api-key"]',
+      'req.headers["authorization"]',
+      'req.query["api_key"]',
+      'req.url',
+      'req.body["apiKey"]',
+      'req.cookies["session"]',
+      'req.headers.cookie',
+    ]);
+  });
+});
+
+describe('createRedactionCensor', () => {
+  const censor = createRedactionCensor([{ type: 'query', name: 'api_key' }]);
+
+  it('should mask the key in query strings', () => {
+    expect(censor('/items?page=2&api_key=secret&sort=asc', ['req', 'url'])).toBe(
+      '/items?page=2&api_key=[Redacted]&sort=asc'
+    );
+    expect(censor('/items?api_key=a&api_key=b', ['req', 'url'])).toBe(
+      '/items?api_key=[Redacted]&api_key=[Redacted]'
+    );
+  });
+
+  it('should mask encoded parameter names', () => {
+    expect(censor('/items?%61pi_key=secret&api%5Fkey=other#top', ['req', 'url'])).toBe(
+      '/items?%61pi_key=[Redacted]&api%5Fkey=[Redacted]#top'
+    );
+  });
+
+  it('should leave other query parameters alone', () => {
+    expect(censor('/items?my_api_key=x', ['req', 'url'])).toBe('/items?my_api_key=x');
+  });
+
+  it('should replace other values', () => {
+    expect(censor('secret', ['req', 'headers', 'x-api-key'])).toBe('[Redacted]');
+  });
+});
+
+describe('createRequestRedactor', () => {
+  const redact = createRequestRedactor([
+    { type: 'header', name: 'X-API-Key' },
+    { type: 'query', name: 'api_key' },
+    { type: 'cookie', name: 'session' },
+  ]);
+
+  it('should censor the sources without changing the serialized request', () => {
+    const req = {
+      url: '/items?api_key=secret',
+      headers: { 'x-api-key': 'secret', cookie: 'session=secret', accept: '*/*' },
+      query: { api_key: 'secret', page: '2' },
+      cookies: { session: 'secret' },
+    };
+
+    expect(redact(req)).toEqual({
+      url: '/items?api_key=[Redacted]',
+      headers: { 'x-api-key': '[Redacted]', cookie: '[Redacted]', accept: '*/*' },
+      query: { api_key: '[Redacted]', page: '2' },
+      cookies: { session: '[Redacted]' },
+    });
+    expect(req.headers['x-api-key']).toBe('secret');
+  });
+
+  it('should leave other values alone', () => {
+    expect(redact({ url: '/items', headers: { accept: '*/*' } })).toEqual({
+      url: '/items',
+      headers: { accept: '*/*' },
+    });
+    expect(redact('text')).toBe('text');
+  });
+});
+
+describe('apiKeyLogBindings', () => {
+  const data: ApiKeyData = {
+    key: '[REDACTED]',
+    fingerprint: 'abc',
+    hint: 'sk_…',
+    keyId: 'key1',
+    scopes: [],
+    metadata: { tenantId: 't1', name: 'ci', id: 'other', secret: 'x' },
+  };
+
+  it('should bind the key ID and fingerprint', () => {
+    expect(apiKeyLogBindings(data)).toEqual({ apiKey: { id: 'key1', fingerprint: 'abc' } });
+  });
+
+  it('should bind selected metadata fields without shadowing the identity', () => {
+    expect(apiKeyLogBindings(data, { metadata: ['tenantId', 'name', 'id', 'missing'] })).toEqual({
+      apiKey: { tenantId: 't1', name: 'ci', id: 'key1', fingerprint: 'abc' },
+    });
+  });
+});
+
+describe('request logging', () => {
+  const createApp = async (
+    options: Partial<FastifyApiKeyOptions>,
+    redact?: string[]
+  ): Promise<{ app: FastifyInstance; logs: Record<string, unknown>[] }> => {
+    const logs: Record<string, unknown>[] = [];
+    const stream = new Writable({
+      write(chunk: Buffer, _encoding, callback): void {
+        logs.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+        callback();
+      },
+    });
+    const app = Fastify({
+      logger: {
+        stream,
+        serializers: {
+          req: (request) => ({ url: request.url, headers: request.headers }),
+        },
+        ...(redact && { redact }),
+      },
+    });
+    await app.register(fastifyApiKey, {
+      sources: [
+        { type: 'header', name: 'X-API-Key' },
+        { type: 'query', name: 'api_key' },
+      ],
+      validate: async (key) =>
+        key === KEY
+          ? { valid: true, keyId: 'key1', metadata: { tenantId: 't1' } }
+          : { valid: false },
+      ...options,
+    });
+    app.get('/items', { preHandler: app.apiKey() }, async (request) => {
+      request.log.info({ secretField: 'hidden' }, 'handled');
+      return { ok: true };
+    });
+    return { app, logs };
+  };
+
+  it('should redact the key from request logs', async () => {
+    const { app, logs } = await createApp({});
+
+    await app.inject({ url: '/items', headers: { 'X-API-Key': KEY } });
+    await app.inject({ url: `/items?api_key=${KEY}&page=2` });
+    const encoded = await app.inject({ url: `/items?%61pi_key=${KEY}` });
+    await app.close();
+
+    expect(encoded.statusCode).toBe(200);
+    expect(JSON.stringify(logs)).not.toContain(KEY);
+    const incoming = logs.filter((line) => line.msg === 'incoming request');
+    expect(incoming.map((line) => line.req)).toEqual([
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'x-api-key': '[Redacted]' }),
+      }),
+      expect.objectContaining({ url: '/items?api_key=[Redacted]&page=2' }),
+      expect.objectContaining({ url: '/items?%61pi_key=[Redacted]' }),
+    ]);
+  });
+
+  it("should keep the server logger's redaction", async () => {
+    const { app, logs } = await createApp({}, ['secretField', 'req.headers["x-secret"]']);
+
+    await app.inject({ url: '/items', headers: { 'X-API-Key': KEY, 'X-Secret': 'hidden' } });
+    await app.close();
+
+    expect(JSON.stringify(logs)).not.toContain('hidden');
+    expect(JSON.stringify(logs)).not.toContain(KEY);
+    expect(logs.find((line) => line.msg === 'handled')).toMatchObject({
+      secretField: '[Redacted]',
+    });
+  });
+
+  it('should not redact when disabled', async () => {
+    const { app, logs } = await createApp({ redactLogs: false });
+
+    await app.inject({ url: '/items', headers: { 'X-API-Key': KEY } });
+    await app.close();
+
+    expect(JSON.stringify(logs)).toContain(KEY);
+  });
+
+  it('should bind the key identity to request.log', async () => {
+    const { app, logs } = await createApp({ logBindings: { metadata: ['tenantId'] } });
+
+    await app.inject({ url: '/items', headers: { 'X-API-Key': KEY } });
+    await app.close();
+
+    expect(logs.find((line) => line.msg === 'handled')).toMatchObject({
+      apiKey: { id: 'key1', fingerprint: fingerprintApiKey(KEY), tenantId: 't1' },
+    });
+  });
+
+  it('should not bind anything by default', async () => {
+    const { app, logs } = await createApp({});
+
+    await app.inject({ url: '/items', headers: { 'X-API-Key': KEY } });
+    await app.close();
+
+    expect(logs.find((line) => line.msg === 'handled')).not.toHaveProperty('apiKey');
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { createApiKeyMetrics, outcomeFromErrorCode } from '../src/metrics.js';
+import { createTestApp } from './helpers.js';
+
+describe('createApiKeyMetrics', () => {
+  it('should count outcomes by label set', () => {
+    const metrics = createApiKeyMetrics();
+
+    metrics.recordOutcome('success', '/users', 'header');
+    metrics.recordOutcome('success', '/users', 'header');
+    metrics.recordOutcome('invalid', '/users', 'query');
+
+    const output = metrics.getMetrics();
+    expect(output).toContain('# TYPE api_key_auth_requests_total counter');
+    expect(output).toContain(
+      'api_key_auth_requests_total{outcome="success",route="/users",source="header"} 2'
+    );
+    expect(output).toContain(
+      'api_key_auth_requests_total{outcome="invalid",route="/users",source="query"} 1'
+    );
+  });
+
+  it('should record a cumulative latency histogram', () => {
+    const metrics = createApiKeyMetrics({ buckets: [0.1, 0.01], prefix: 'auth_' });
+
+    metrics.observeValidation(0.005);
+    metrics.observeValidation(0.05);
+    metrics.observeValidation(2);
+
+    const output = metrics.getMetrics();
+    expect(output).toContain('# TYPE auth_validation_duration_seconds histogram');
+    expect(output).toContain('auth_validation_duration_seconds_bucket{le="0.01"} 1');
+    expect(output).toContain('auth_validation_duration_seconds_bucket{le="0.1"} 2');
+    expect(output).toContain('auth_validation_duration_seconds_bucket{le="+Inf"} 3');
+    expect(output).toContain('auth_validation_duration_seconds_sum 2.055');
+    expect(output).toContain('auth_validation_duration_seconds_count 3');
+  });
+
+  it('should escape label values', () => {
+    const metrics = createApiKeyMetrics();
+
+    metrics.recordOutcome('success', '/a"b\\c\nd', 'header');
+
+    expect(metrics.getMetrics()).toContain('route="/a\\"b\\\\c\\nd"');
+  });
+
+  it('should reset all metrics', () => {
+    const metrics = createApiKeyMetrics();
+    metrics.recordOutcome('success', '/users', 'header');
+    metrics.observeValidation(0.1);
+
+    metrics.reset();
+
+    expect(metrics.getMetrics()).not.toContain('outcome=');
+    expect(metrics.getMetrics()).toContain('api_key_validation_duration_seconds_count 0');
+  });
+
+  it('should map error codes to outcomes', () => {
+    expect(outcomeFromErrorCode('MISSING_API_KEY')).toBe('missing');
+    expect(outcomeFromErrorCode('EXPIRED_API_KEY')).toBe('expired');
+    expect(outcomeFromErrorCode('INSUFFICIENT_SCOPES')).toBe('insufficient_scopes');
+    expect(outcomeFromErrorCode('RATE_LIMIT_EXCEEDED')).toBe('rate_limited');
+    expect(outcomeFromErrorCode('IP_NOT_ALLOWED')).toBe('forbidden');
+  });
+});
+
+describe('metrics in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const setup = async (metrics: boolean | { route?: string }): Promise<void> => {
+    app = await createTestApp({
+      sources: [
+        { type: 'header', name: 'X-API-Key' },
+        { type: 'query', name: 'api_key' },
+      ],
+      validate: async (key) => {
+        if (key === 'expired') {
+          return { valid: true, expiresAt: 0 };
+        }
+        return key.startsWith('sk_') ? { valid: true, scopes: ['read'] } : { valid: false };
+      },
+      rateLimit: { limit: 2 },
+      metrics,
+    });
+    app.get('/read', { preHandler: app.apiKey({ scopes: ['read'] }) }, async () => ({}));
+    app.get('/write', { preHandler: app.apiKey({ scopes: ['write'] }) }, async () => ({}));
+  };
+
+  it('should count outcomes by route and source', async () => {
+    await setup(true);
+
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_a' } });
+    await app.inject({ url: '/read?api_key=sk_b' });
+    await app.inject({ url: '/read' });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'bad' } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'expired' } });
+    await app.inject({ url: '/write', headers: { 'X-API-Key': 'sk_c' } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_a' } });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_a' } });
+
+    const output = app.apiKeyMetrics.getMetrics();
+    const count = (labels: string): string | undefined =>
+      output
+        .split('\n')
+        .find((line) => line.startsWith(`api_key_auth_requests_total{${labels}}`))
+        ?.split(' ')[1];
+
+    expect(count('outcome="success",route="/read",source="header"')).toBe('2');
+    expect(count('outcome="success",route="/read",source="query"')).toBe('1');
+    expect(count('outcome="missing",route="/read",source="none"')).toBe('1');
+    expect(count('outcome="invalid",route="/read",source="header"')).toBe('1');
+    expect(count('outcome="expired",route="/read",source="header"')).toBe('1');
+    expect(count('outcome="insufficient_scopes",route="/write",source="header"')).toBe('1');
+    expect(count('outcome="rate_limited",route="/read",source="header"')).toBe('1');
+    expect(output).toContain('api_key_validation_duration_seconds_count 7');
+  });
+
+  it('should count failures handled by a custom error handler', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: false }),
+      errorHandler: async (_error, _request, reply) => {
+        await reply.code(401).send({ denied: true });
+      },
+      metrics: true,
+    });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({}));
+
+    await app.inject({ url: '/test', headers: { 'X-API-Key': 'bad' } });
+
+    expect(app.apiKeyMetrics.getMetrics()).toContain(
+      'api_key_auth_requests_total{outcome="invalid",route="/test",source="header"} 1'
+    );
+  });
+
+  it('should serve metrics from the configured route', async () => {
+    await setup({ route: '/metrics' });
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_a' } });
+
+    const response = await app.inject({ url: '/metrics' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(response.body).toContain('outcome="success",route="/read"');
+  });
+
+  it('should keep the metrics route public under protectRoutes', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true }),
+      metrics: { route: '/metrics' },
+      protectRoutes: { report: false },
+    });
+
+    expect((await app.inject({ url: '/metrics' })).statusCode).toBe(200);
+  });
+
+  it('should not record anything when disabled', async () => {
+    await setup(false);
+    await app.inject({ url: '/read', headers: { 'X-API-Key': 'sk_a' } });
+
+    expect(app.apiKeyMetrics.getMetrics()).not.toContain('outcome=');
+    expect((await app.inject({ url: '/metrics' })).statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fastifySwagger from '@fastify/swagger';
+import fastifyApiKey, {
+  apiKeySecurityRequirements,
+  apiKeySecuritySchemes,
+  type ApiKeySource,
+  type FastifyApiKeyOptions,
+} from '../src/index.js';
+
+interface OpenApiDocument {
+  components: { securitySchemes?: Record<string, unknown> };
+  paths: Record<
+    string,
+    Record<string, { security?: unknown; responses: Record<string, { description: string }> }>
+  >;
+}
+
+const SOURCES: ApiKeySource[] = [
+  { type: 'header', name: 'X-API-Key' },
+  { type: 'header', name: 'Authorization', prefix: 'Bearer ' },
+  { type: 'query', name: 'api_key' },
+  { type: 'cookie', name: 'session' },
+  { type: 'body', name: 'apiKey' },
+];
+
+describe('apiKeySecuritySchemes', () => {
+  it('should derive a scheme from each source', () => {
+    expect(apiKeySecuritySchemes(SOURCES)).toEqual({
+      ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      ApiKeyBearer: { type: 'http', scheme: 'bearer' },
+      ApiKeyQuery: { type: 'apiKey', in: 'query', name: 'api_key' },
+      ApiKeyCookie: { type: 'apiKey', in: 'cookie', name: 'session' },
+    });
+  });
+
+  it('should number sources of the same type', () => {
+    expect(
+      Object.keys(
+        apiKeySecuritySchemes([
+          { type: 'header', name: 'X-API-Key' },
+          { type: 'header', name: 'X-Legacy-Key' },
+        ])
+      )
+    ).toEqual(['ApiKeyHeader', 'ApiKeyHeader2']);
+  });
+});
+
+describe('apiKeySecurityRequirements', () => {
+  const sources = [
+    { type: 'header' as const, name: 'X-API-Key' },
+    { type: 'query' as const, name: 'api_key' },
+  ];
+
+  it('should accept any scheme with the required scopes', () => {
+    expect(apiKeySecurityRequirements(sources, { scopes: ['read'] })).toEqual([
+      { ApiKeyHeader: ['read'] },
+      { ApiKeyQuery: ['read'] },
+    ]);
+  });
+
+  it('should list one requirement per alternative scope', () => {
+    expect(
+      apiKeySecurityRequirements([{ type: 'header', name: 'X-API-Key' }], {
+        scopes: ['read'],
+        anyScope: ['write', 'admin'],
+      })
+    ).toEqual([{ ApiKeyHeader: ['read', 'write'] }, { ApiKeyHeader: ['read', 'admin'] }]);
+  });
+
+  it('should make authentication optional for anonymous access', () => {
+    expect(apiKeySecurityRequirements(sources, {}, true)).toEqual([
+      { ApiKeyHeader: [] },
+      { ApiKeyQuery: [] },
+      {},
+    ]);
+  });
+});
+
+describe('OpenAPI integration', () => {
+  const createApp = async (
+    options: Partial<FastifyApiKeyOptions> = {}
+  ): Promise<FastifyInstance> => {
+    const app = Fastify({ logger: false });
+    await app.register(fastifySwagger, {
+      openapi: {
+        info: { title: 'Test', version: '1.0.0' },
+        components: {
+          securitySchemes: { Custom: { type: 'http', scheme: 'basic' } },
+        },
+      },
+    });
+    await app.register(fastifyApiKey, {
+      validate: async () => ({ valid: true, scopes: ['read'] }),
+      ...options,
+    });
+    return app;
+  };
+
+  const generate = async (app: FastifyInstance): Promise<OpenApiDocument> => {
+    await app.ready();
+    return app.swagger() as unknown as OpenApiDocument;
+  };
+
+  it('should register security schemes next to the configured ones', async () => {
+    const app = await createApp({ sources: SOURCES });
+
+    const document = await generate(app);
+
+    expect(document.components.securitySchemes).toEqual({
+      ...apiKeySecuritySchemes(SOURCES),
+      Custom: { type: 'http', scheme: 'basic' },
+    });
+  });
+
+  it('should document guarded routes', async () => {
+    const app = await createApp();
+    app.get('/items', { preHandler: app.apiKey({ scopes: ['read'] }) }, async () => ({}));
+    app.get('/public', async () => ({}));
+
+    const document = await generate(app);
+    const items = document.paths['/items']?.get;
+    const open = document.paths['/public']?.get;
+
+    expect(items?.security).toEqual([{ ApiKeyHeader: ['read'] }]);
+    expect(Object.keys(items?.responses ?? {})).toEqual(['200', '401', '403']);
+    expect(items?.responses['401']).toMatchObject({
+      content: {
+        'application/json': {
+          schema: {
+            required: ['error', 'message', 'statusCode'],
+            properties: { error: { type: 'string' }, expiresAt: { format: 'date-time' } },
+          },
+        },
+      },
+    });
+    expect(open?.security).toBeUndefined();
+    expect(open?.responses).not.toHaveProperty('401');
+    expect(JSON.stringify(document)).not.toContain('x-fastify-api-key');
+  });
+
+  it('should document 429 responses of rate limited routes', async () => {
+    const app = await createApp();
+    app.get('/limited', { preHandler: app.apiKey({ rateLimit: { limit: 10 } }) }, async () => ({}));
+    app.get('/unlimited', { preHandler: app.apiKey() }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.paths['/limited']?.get?.responses).toHaveProperty('429');
+    expect(document.paths['/unlimited']?.get?.responses).not.toHaveProperty('429');
+  });
+
+  it('should describe scope expressions', async () => {
+    const app = await createApp();
+    app.get('/items', { preHandler: app.apiKey({ requires: 'read AND write' }) }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.paths['/items']?.get?.responses['403']?.description).toContain(
+      'requires read AND write'
+    );
+  });
+
+  it('should document routes guarded by protectRoutes', async () => {
+    const app = await createApp({ protectRoutes: { report: false } });
+    app.get('/items', { config: { apiKey: { anyScope: ['read', 'admin'] } } }, async () => ({}));
+    app.get('/health', { config: { apiKey: false } }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.paths['/items']?.get?.security).toEqual([
+      { ApiKeyHeader: ['read'] },
+      { ApiKeyHeader: ['admin'] },
+    ]);
+    expect(document.paths['/health']?.get?.security).toBeUndefined();
+  });
+
+  it('should document signed routes with the key ID header', async () => {
+    const app = await createApp({ signing: { validate: async () => ({ valid: false }) } });
+    app.post('/orders', { preHandler: app.apiKey({ signed: true }) }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.components.securitySchemes).toMatchObject({
+      ApiKeySignature: { type: 'apiKey', in: 'header', name: 'x-api-key-id' },
+    });
+    expect(document.paths['/orders']?.post?.security).toEqual([{ ApiKeySignature: [] }]);
+  });
+
+  it('should document signed URL routes with the key ID parameter', async () => {
+    const app = await createApp({ signing: { validate: async () => ({ valid: false }) } });
+    app.get('/files', { preHandler: app.apiKey({ signedUrl: true }) }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.components.securitySchemes).toMatchObject({
+      ApiKeySignedUrl: { type: 'apiKey', in: 'query', name: 'x-key-id' },
+    });
+    expect(document.paths['/files']?.get?.security).toEqual([{ ApiKeySignedUrl: [] }]);
+  });
+
+  it('should keep responses and security documented by the route', async () => {
+    const app = await createApp();
+    app.get(
+      '/items',
+      {
+        preHandler: app.apiKey(),
+        schema: {
+          security: [{ Custom: [] }],
+          response: { 401: { description: 'Custom', type: 'object' } },
+        },
+      },
+      async () => ({})
+    );
+
+    const document = await generate(app);
+
+    expect(document.paths['/items']?.get?.security).toEqual([{ Custom: [] }]);
+    expect(document.paths['/items']?.get?.responses['401']?.description).toBe('Custom');
+  });
+
+  it('should not change error replies', async () => {
+    const app = await createApp({ validate: async () => ({ valid: false }) });
+    app.get('/items', { preHandler: app.apiKey() }, async () => ({}));
+    await app.ready();
+
+    const response = await app.inject({ url: '/items', headers: { 'X-API-Key': 'sk_wrong' } });
+
+    expect(response.json()).toMatchObject({ code: 'INVALID_API_KEY', error: 'Unauthorized' });
+  });
+
+  it('should serve the document as YAML', async () => {
+    const app = await createApp();
+    app.get('/items', { preHandler: app.apiKey() }, async () => ({}));
+    await app.ready();
+
+    const yaml = app.swagger({ yaml: true });
+
+    expect(yaml).toMatch(/^openapi: /);
+    expect(yaml).toContain('ApiKeyHeader');
+    expect(yaml).toContain('      security:\n        - ApiKeyHeader: []');
+    expect(yaml).not.toContain('x-fastify-api-key');
+  });
+
+  it('should leave the document alone when disabled', async () => {
+    const app = await createApp({ openapi: false });
+    app.get('/items', { preHandler: app.apiKey() }, async () => ({}));
+
+    const document = await generate(app);
+
+    expect(document.components.securitySchemes).toEqual({
+      Custom: { type: 'http', scheme: 'basic' },
+    });
+    expect(document.paths['/items']?.get?.security).toBeUndefined();
+  });
+});
@@ -1,6 +1,11 @@
-import { describe, it, expect, afterEach } from 'vitest';
-import type { FastifyInstance } from 'fastify';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
 import { createTestApp, TEST_KEYS, TEST_SCOPES } from './helpers.js';
+import fastifyApiKey, {
+  fingerprintApiKey,
+  generateApiKey,
+  generateStructuredApiKey,
+} from '../src/index.js';
 
 describe('fastify-api-key plugin', () => {
   let app: FastifyInstance;
@@ -159,6 +164,82 @@ describe('fastify-api-key plugin', () => {
 
       expect(response.json().key).toBe('secret-key');
     });
+
+    it('should follow redactKey over timingSafe', async () => {
+      app = await createTestApp({
+        validate: async () => ({ valid: true }),
+        timingSafe: false,
+        redactKey: true,
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        key: request.apiKey?.key,
+      }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': 'secret-key' },
+      });
+
+      expect(response.json().key).toBe('[REDACTED]');
+    });
+
+    it('should show configured prefixes in the hint', async () => {
+      const key = generateApiKey({ prefix: 'sk_live' });
+      app = await createTestApp({
+        validate: async () => ({ valid: true }),
+        hintPrefixes: ['sk_test', 'sk_live'],
+      });
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        hint: request.apiKey?.hint,
+      }));
+
+      const response = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+
+      expect(response.json()).toEqual({ hint: `sk_live_…${key.slice(-4)}` });
+    });
+
+    it('should warn at startup when fingerprints are not keyed', async () => {
+      const warnings = await Promise.all(
+        [undefined, 'fingerprint-secret'].map(async (fingerprintSecret) => {
+          const instance = Fastify({ logger: false });
+          const warn = vi.spyOn(instance.log, 'warn');
+          await instance.register(fastifyApiKey, {
+            validate: async () => ({ valid: true }),
+            ...(fingerprintSecret === undefined ? {} : { fingerprintSecret }),
+          });
+          await instance.close();
+          return warn.mock.calls.flat();
+        })
+      );
+
+      expect(warnings[0]).toEqual([expect.stringContaining('fingerprintSecret is not set')]);
+      expect(warnings[1]).toEqual([]);
+    });
+
+    it('should expose a fingerprint and hint of the key', async () => {
+      const { key } = generateStructuredApiKey({ prefix: 'sk_live' });
+      app = await createTestApp({
+        validate: async () => ({ valid: true }),
+        fingerprintSecret: 'fingerprint-secret',
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        fingerprint: request.apiKey?.fingerprint,
+        hint: request.apiKey?.hint,
+      }));
+
+      const first = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+      const second = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+
+      expect(first.json()).toEqual({
+        fingerprint: fingerprintApiKey(key, 'fingerprint-secret'),
+        hint: `sk_live_…${key.slice(-4)}`,
+      });
+      expect(second.json()).toEqual(first.json());
+      expect(first.json().fingerprint).not.toBe(fingerprintApiKey(key));
+    });
   });
 
   describe('anonymous access', () => {
@@ -445,6 +526,161 @@ describe('fastify-api-key plugin', () => {
     });
   });
 
+  describe('key expiration', () => {
+    it('should reject expired keys with EXPIRED_API_KEY', async () => {
+      const expiresAt = new Date(Date.now() - 1000);
+      app = await createTestApp({
+        validate: async () => ({ valid: true, expiresAt }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': TEST_KEYS.expired },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json().code).toBe('EXPIRED_API_KEY');
+    });
+
+    it('should expose expiresAt on request.apiKey for keys not yet expired', async () => {
+      const expiresAt = new Date(Date.now() + 60_000).toISOString();
+      app = await createTestApp({
+        validate: async () => ({ valid: true, expiresAt }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        expiresAt: request.apiKey?.expiresAt?.toISOString(),
+      }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': TEST_KEYS.valid },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ expiresAt });
+    });
+
+    it('should apply the clock skew tolerance', async () => {
+      app = await createTestApp({
+        clockSkewTolerance: 30_000,
+        validate: async (key) => ({
+          valid: true,
+          expiresAt: Date.now() - (key === 'recent' ? 10_000 : 60_000),
+        }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const recent = await app.inject({ url: '/test', headers: { 'X-API-Key': 'recent' } });
+      const old = await app.inject({ url: '/test', headers: { 'X-API-Key': 'old' } });
+
+      expect(recent.statusCode).toBe(200);
+      expect(old.statusCode).toBe(401);
+    });
+
+    it('should treat unparseable expiry dates as expired', async () => {
+      app = await createTestApp({
+        validate: async () => ({ valid: true, expiresAt: 'not-a-date' }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+
+      expect(response.json().code).toBe('EXPIRED_API_KEY');
+    });
+  });
+
+  describe('structured keys', () => {
+    it('should expose the parsed key ID on request.apiKey', async () => {
+      const { key, keyId } = generateStructuredApiKey({ prefix: 'sk_live' });
+      app = await createTestApp({
+        structuredKeys: true,
+        validate: async () => ({ valid: true }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        keyId: request.apiKey?.keyId,
+      }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': key },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ keyId });
+    });
+
+    it('should reject malformed keys without calling validate', async () => {
+      let calls = 0;
+      app = await createTestApp({
+        structuredKeys: true,
+        validate: async () => {
+          calls++;
+          return { valid: true };
+        },
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const { key } = generateStructuredApiKey({ prefix: 'sk_live' });
+      for (const badKey of ['random-garbage', `${key.slice(0, -8)}00000000`]) {
+        const response = await app.inject({
+          method: 'GET',
+          url: '/test',
+          headers: { 'X-API-Key': badKey },
+        });
+
+        expect(response.statusCode).toBe(401);
+        expect(response.json().code).toBe('INVALID_API_KEY');
+        expect(response.json().message).toBe('Malformed API key');
+      }
+      expect(calls).toBe(0);
+    });
+
+    it('should reject keys with a prefix that is not allowed', async () => {
+      app = await createTestApp({
+        structuredKeys: { prefixes: ['sk_live'] },
+        validate: async () => ({ valid: true }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': generateStructuredApiKey({ prefix: 'sk_test' }).key },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should prefer the key ID returned by the validator', async () => {
+      app = await createTestApp({
+        validate: async () => ({ valid: true, keyId: 'key_123' }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+        keyId: request.apiKey?.keyId,
+      }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'X-API-Key': 'plain-key' },
+      });
+
+      expect(response.json()).toEqual({ keyId: 'key_123' });
+    });
+  });
+
   describe('custom decorator name', () => {
     it('should use custom decorator name', async () => {
       app = await createTestApp({
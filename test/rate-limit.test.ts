@@ -0,0 +1,337 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import {
+  InMemoryRateLimitStore,
+  buildRateLimitHeaders,
+  resolveRateLimitPolicy,
+} from '../src/rate-limit.js';
+import { createTestApp } from './helpers.js';
+
+describe('InMemoryRateLimitStore', () => {
+  describe('sliding-window', () => {
+    const policy = { limit: 2, window: 10_000, algorithm: 'sliding-window' as const };
+
+    it('should allow up to limit requests per window', () => {
+      const store = new InMemoryRateLimitStore();
+
+      expect(store.consume('k', policy, 0)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(store.consume('k', policy, 1000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(store.consume('k', policy, 2000)).toMatchObject({
+        allowed: false,
+        remaining: 0,
+        retryAfter: 8,
+      });
+    });
+
+    it('should allow requests again once old hits leave the window', () => {
+      const store = new InMemoryRateLimitStore();
+      store.consume('k', policy, 0);
+      store.consume('k', policy, 5000);
+
+      expect(store.consume('k', policy, 9999).allowed).toBe(false);
+      expect(store.consume('k', policy, 10_000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(store.consume('k', policy, 12_000).retryAfter).toBe(3);
+    });
+
+    it('should count keys independently and reset them', () => {
+      const store = new InMemoryRateLimitStore();
+      store.consume('a', policy, 0);
+      store.consume('a', policy, 0);
+
+      expect(store.consume('a', policy, 0).allowed).toBe(false);
+      expect(store.consume('b', policy, 0).allowed).toBe(true);
+
+      store.reset('a');
+      expect(store.consume('a', policy, 0).allowed).toBe(true);
+    });
+  });
+
+  describe('token-bucket', () => {
+    const policy = { limit: 2, window: 10_000, algorithm: 'token-bucket' as const };
+
+    it('should allow bursts up to capacity and refill over time', () => {
+      const store = new InMemoryRateLimitStore();
+
+      expect(store.consume('k', policy, 0)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(store.consume('k', policy, 0)).toMatchObject({ allowed: true, remaining: 0 });
+
+      const denied = store.consume('k', policy, 1000);
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfter).toBe(4);
+
+      expect(store.consume('k', policy, 5000).allowed).toBe(true);
+    });
+
+    it('should report when the bucket is full again', () => {
+      const store = new InMemoryRateLimitStore();
+      const decision = store.consume('k', policy, 0);
+
+      expect(decision.reset).toBe(5);
+    });
+  });
+});
+
+describe('resolveRateLimitPolicy', () => {
+  it('should return null when no limit is configured', () => {
+    expect(resolveRateLimitPolicy(undefined, { window: 1000 })).toBeNull();
+  });
+
+  it('should let later policies override earlier ones', () => {
+    expect(
+      resolveRateLimitPolicy(
+        { limit: 100, window: 60_000 },
+        { limit: 1000 },
+        { algorithm: 'token-bucket' }
+      )
+    ).toEqual({ limit: 1000, window: 60_000, algorithm: 'token-bucket' });
+  });
+
+  it('should apply defaults', () => {
+    expect(resolveRateLimitPolicy({ limit: 5 })).toEqual({
+      limit: 5,
+      window: 60_000,
+      algorithm: 'sliding-window',
+    });
+  });
+});
+
+describe('buildRateLimitHeaders', () => {
+  const rateLimit = { limit: 100, remaining: 42, reset: 1030 };
+  const policy = { limit: 100, window: 60_000, algorithm: 'sliding-window' as const };
+
+  it('should build legacy X-RateLimit headers', () => {
+    expect(buildRateLimitHeaders('legacy', rateLimit, policy, 1_000_000)).toEqual({
+      'x-ratelimit-limit': '100',
+      'x-ratelimit-remaining': '42',
+      'x-ratelimit-reset': '1030',
+    });
+  });
+
+  it('should build IETF RateLimit headers with delta reset', () => {
+    expect(buildRateLimitHeaders('standard', rateLimit, policy, 1_000_000)).toEqual({
+      ratelimit: 'limit=100, remaining=42, reset=30',
+      'ratelimit-policy': '100;w=60',
+    });
+  });
+
+  it('should omit RateLimit-Policy when no policy is enforced', () => {
+    expect(buildRateLimitHeaders('standard', rateLimit, null, 2_000_000)).toEqual({
+      ratelimit: 'limit=100, remaining=42, reset=0',
+    });
+  });
+});
+
+describe('rate limiting in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  const inject = (key: string, url = '/test') =>
+    app.inject({ method: 'GET', url, headers: { 'X-API-Key': key } });
+
+  it('should reject requests over the global limit with 429', async () => {
+    app = await createTestApp({
+      rateLimit: { limit: 2, window: 60_000 },
+      validate: async () => ({ valid: true }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async (request) => ({
+      rateLimit: request.apiKey?.rateLimit,
+    }));
+
+    expect((await inject('key')).json().rateLimit).toMatchObject({ limit: 2, remaining: 1 });
+    expect((await inject('key')).json().rateLimit).toMatchObject({ limit: 2, remaining: 0 });
+
+    const response = await inject('key');
+    expect(response.statusCode).toBe(429);
+    expect(response.json().code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(response.json().message).toBe('Rate limit exceeded');
+
+    expect((await inject('other-key')).statusCode).toBe(200);
+  });
+
+  it('should apply per-key policies from the validation result', async () => {
+    app = await createTestApp({
+      rateLimit: { limit: 1 },
+      validate: async (key) => ({
+        valid: true,
+        rateLimitPolicy: key === 'premium' ? { limit: 3 } : undefined,
+      }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    expect((await inject('basic')).statusCode).toBe(200);
+    expect((await inject('basic')).statusCode).toBe(429);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await inject('premium')).statusCode).toBe(200);
+    }
+    expect((await inject('premium')).statusCode).toBe(429);
+  });
+
+  it('should count per-route limits separately', async () => {
+    app = await createTestApp({
+      rateLimit: { limit: 10 },
+      validate: async () => ({ valid: true }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+    app.get('/export', { preHandler: app.apiKey({ rateLimit: { limit: 1 } }) }, async () => ({
+      success: true,
+    }));
+    app.get('/health', { preHandler: app.apiKey({ rateLimit: false }) }, async () => ({
+      success: true,
+    }));
+
+    expect((await inject('key', '/export')).statusCode).toBe(200);
+    expect((await inject('key', '/export')).statusCode).toBe(429);
+    expect((await inject('key', '/test')).statusCode).toBe(200);
+
+    for (let i = 0; i < 20; i++) {
+      expect((await inject('key', '/health')).statusCode).toBe(200);
+    }
+  });
+
+  it('should pass RateLimitExceededError with retryAfter to the error handler', async () => {
+    app = await createTestApp({
+      rateLimit: { limit: 1, window: 30_000 },
+      validate: async () => ({ valid: true }),
+      errorHandler: async (error, _request, reply) => {
+        await reply.status(error.statusCode).send(error.toJSON());
+      },
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    await inject('key');
+    const response = await inject('key');
+
+    expect(response.statusCode).toBe(429);
+    expect(response.json()).toMatchObject({ error: 'RATE_LIMIT_EXCEEDED', retryAfter: 30 });
+  });
+
+  it('should use a custom store', async () => {
+    const consumed: string[] = [];
+    app = await createTestApp({
+      rateLimit: {
+        limit: 5,
+        store: {
+          consume: (id, policy) => {
+            consumed.push(id);
+            return { allowed: true, limit: policy.limit, remaining: 4, reset: 0, retryAfter: 0 };
+          },
+          reset: () => undefined,
+        },
+      },
+      validate: async () => ({ valid: true, keyId: 'key_1' }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    await inject('key');
+    expect(consumed).toEqual(['key_1']);
+  });
+
+  it('should not rate limit when no limit is configured', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    for (let i = 0; i < 20; i++) {
+      expect((await inject('key')).statusCode).toBe(200);
+    }
+  });
+
+  describe('response headers', () => {
+    it('should not send headers by default', async () => {
+      app = await createTestApp({
+        rateLimit: { limit: 1 },
+        validate: async () => ({ valid: true }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await inject('key');
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+      expect(response.headers.ratelimit).toBeUndefined();
+    });
+
+    it('should send legacy headers from the enforced limit', async () => {
+      app = await createTestApp({
+        rateLimit: { limit: 2, window: 60_000 },
+        rateLimitHeaders: 'legacy',
+        validate: async () => ({ valid: true }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await inject('key');
+      expect(response.headers['x-ratelimit-limit']).toBe('2');
+      expect(response.headers['x-ratelimit-remaining']).toBe('1');
+      expect(Number(response.headers['x-ratelimit-reset'])).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should send headers from the validation result when no limit is enforced', async () => {
+      app = await createTestApp({
+        rateLimitHeaders: 'standard',
+        validate: async () => ({
+          valid: true,
+          rateLimit: { limit: 1000, remaining: 999, reset: Math.ceil(Date.now() / 1000) + 60 },
+        }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      const response = await inject('key');
+      expect(response.headers.ratelimit).toMatch(/^limit=1000, remaining=999, reset=(59|60)$/);
+      expect(response.headers['ratelimit-policy']).toBeUndefined();
+    });
+
+    it('should send Retry-After and rate limit headers on 429', async () => {
+      app = await createTestApp({
+        rateLimit: { limit: 1, window: 30_000 },
+        rateLimitHeaders: 'standard',
+        validate: async () => ({ valid: true }),
+      });
+
+      app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+      await inject('key');
+      const response = await inject('key');
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('30');
+      expect(response.headers['ratelimit-policy']).toBe('1;w=30');
+      expect(response.headers.ratelimit).toMatch(/^limit=1, remaining=0, reset=\d+$/);
+    });
+
+    it('should send headers on error replies from the custom error handler', async () => {
+      app = await createTestApp({
+        rateLimitHeaders: 'legacy',
+        validate: async () => ({
+          valid: true,
+          scopes: [],
+          rateLimit: { limit: 10, remaining: 5, reset: 1234567890 },
+        }),
+        errorHandler: async (error, _request, reply) => {
+          await reply.status(error.statusCode).send({ code: error.code });
+        },
+      });
+
+      app.get('/test', { preHandler: app.apiKey({ scopes: ['admin'] }) }, async () => ({
+        success: true,
+      }));
+
+      const response = await inject('key');
+      expect(response.statusCode).toBe(403);
+      expect(response.headers['x-ratelimit-remaining']).toBe('5');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fastifyApiKey from '../src/index.js';
+import { isIpAllowed, isOriginAllowed } from '../src/restrictions.js';
+import { createTestApp } from './helpers.js';
+
+describe('isIpAllowed', () => {
+  it('should match exact IPv4 and IPv6 addresses', () => {
+    expect(isIpAllowed('203.0.113.7', ['203.0.113.7'])).toBe(true);
+    expect(isIpAllowed('203.0.113.8', ['203.0.113.7'])).toBe(false);
+    expect(isIpAllowed('2001:db8::1', ['2001:db8::1'])).toBe(true);
+    expect(isIpAllowed('2001:db8::2', ['2001:db8::1'])).toBe(false);
+  });
+
+  it('should match CIDR ranges', () => {
+    expect(isIpAllowed('10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+    expect(isIpAllowed('11.1.2.3', ['10.0.0.0/8'])).toBe(false);
+    expect(isIpAllowed('2001:db8:abcd::1', ['2001:db8::/32'])).toBe(true);
+    expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+  });
+
+  it('should match IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isIpAllowed('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+    expect(isIpAllowed('10.1.2.3', ['::ffff:10.1.2.3'])).toBe(true);
+  });
+
+  it('should ignore invalid entries and reject invalid addresses', () => {
+    expect(isIpAllowed('10.1.2.3', ['not-an-ip', '10.0.0.0/33', '10.0.0.0/', '10.0.0.0/8/1'])).toBe(
+      false
+    );
+    expect(isIpAllowed('not-an-ip', ['0.0.0.0/0'])).toBe(false);
+  });
+});
+
+describe('isOriginAllowed', () => {
+  it('should match exact origins', () => {
+    expect(isOriginAllowed('https://app.example.com', ['https://app.example.com'])).toBe(true);
+    expect(isOriginAllowed('http://app.example.com', ['https://app.example.com'])).toBe(false);
+    expect(isOriginAllowed('https://app.example.com:8443', ['https://app.example.com'])).toBe(
+      false
+    );
+    expect(isOriginAllowed('https://APP.example.com', ['https://app.EXAMPLE.com'])).toBe(true);
+  });
+
+  it('should match wildcard subdomains but not the apex domain', () => {
+    const patterns = ['https://*.example.com'];
+
+    expect(isOriginAllowed('https://maps.example.com', patterns)).toBe(true);
+    expect(isOriginAllowed('https://a.b.example.com', patterns)).toBe(true);
+    expect(isOriginAllowed('https://example.com', patterns)).toBe(false);
+    expect(isOriginAllowed('https://evilexample.com', patterns)).toBe(false);
+    expect(isOriginAllowed('https://example.com.evil.io', patterns)).toBe(false);
+  });
+
+  it('should accept any scheme when the pattern has none', () => {
+    expect(isOriginAllowed('http://widgets.example.com', ['*.example.com'])).toBe(true);
+    expect(isOriginAllowed('https://example.com', ['example.com'])).toBe(true);
+  });
+
+  it('should accept every http(s) origin for "*"', () => {
+    expect(isOriginAllowed('https://anything.io', ['*'])).toBe(true);
+    expect(isOriginAllowed('null', ['*'])).toBe(false);
+  });
+
+  it('should accept full URLs such as Referer values', () => {
+    expect(isOriginAllowed('https://app.example.com/page?q=1', ['https://app.example.com'])).toBe(
+      true
+    );
+  });
+});
+
+describe('IP allowlists in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it('should allow requests from allowed addresses', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true, allowedIps: ['198.51.100.0/24'] }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    const response = await app.inject({
+      url: '/test',
+      headers: { 'X-API-Key': 'partner-key' },
+      remoteAddress: '198.51.100.20',
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should reject requests from other addresses with 403', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true, allowedIps: ['198.51.100.0/24'] }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    const response = await app.inject({
+      url: '/test',
+      headers: { 'X-API-Key': 'partner-key' },
+      remoteAddress: '203.0.113.1',
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().code).toBe('IP_NOT_ALLOWED');
+  });
+
+  it('should not restrict keys without allowedIps', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true, allowedIps: [] }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should respect trustProxy when resolving the client IP', async () => {
+    app = Fastify({ logger: false, trustProxy: true });
+    await app.register(fastifyApiKey, {
+      validate: async () => ({ valid: true, allowedIps: ['2001:db8::/32'] }),
+    });
+
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ success: true }));
+
+    const allowed = await app.inject({
+      url: '/test',
+      headers: { 'X-API-Key': 'key', 'X-Forwarded-For': '2001:db8::42' },
+      remoteAddress: '10.0.0.1',
+    });
+    const denied = await app.inject({
+      url: '/test',
+      headers: { 'X-API-Key': 'key', 'X-Forwarded-For': '2001:db9::42' },
+      remoteAddress: '10.0.0.1',
+    });
+
+    expect(allowed.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+  });
+});
+
+describe('origin restrictions in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  const setup = async (requireOrigin?: boolean): Promise<void> => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true, allowedOrigins: ['https://*.example.com'] }),
+    });
+
+    app.get('/tiles', { preHandler: app.apiKey({ requireOrigin }) }, async () => ({
+      success: true,
+    }));
+  };
+
+  it('should allow requests from allowed origins', async () => {
+    await setup();
+
+    const response = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Origin: 'https://maps.example.com' },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should reject requests from other origins with 403', async () => {
+    await setup();
+
+    const response = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Origin: 'https://evil.io' },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().code).toBe('ORIGIN_NOT_ALLOWED');
+  });
+
+  it('should fall back to the Referer header', async () => {
+    await setup();
+
+    const allowed = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Referer: 'https://maps.example.com/page' },
+    });
+    const denied = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Referer: 'https://evil.io/page' },
+    });
+
+    expect(allowed.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+  });
+
+  it('should not restrict requests without Origin or Referer by default', async () => {
+    await setup();
+
+    const response = await app.inject({ url: '/tiles', headers: { 'X-API-Key': 'pk_key' } });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should require an Origin header when requireOrigin is set', async () => {
+    await setup(true);
+
+    const missing = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Referer: 'https://maps.example.com/page' },
+    });
+    const present = await app.inject({
+      url: '/tiles',
+      headers: { 'X-API-Key': 'pk_key', Origin: 'https://maps.example.com' },
+    });
+
+    expect(missing.statusCode).toBe(403);
+    expect(missing.json().message).toBe('Origin header is required for this API key');
+    expect(present.statusCode).toBe(200);
+  });
+});
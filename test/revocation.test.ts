@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { EventEmitterRevocationBackend, createRevocationList } from '../src/revocation.js';
+import { generateStructuredApiKey } from '../src/key-format.js';
+import { fingerprintApiKey } from '../src/utils.js';
+import { createTestApp } from './helpers.js';
+
+describe('createRevocationList', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should revoke keys immediately', async () => {
+    const list = createRevocationList();
+
+    expect(list.isRevoked('key1')).toBeUndefined();
+    await list.revoke('key1', { reason: 'leaked' });
+
+    expect(list.isRevoked('key1')).toEqual({ id: 'key1', reason: 'leaked', expiresAt: undefined });
+    expect(list.size).toBe(1);
+  });
+
+  it('should drop entries after their ttl', async () => {
+    vi.useFakeTimers();
+    const list = createRevocationList();
+    await list.revoke('key1', { ttl: 1000 });
+
+    vi.advanceTimersByTime(999);
+    expect(list.isRevoked('key1')).toBeDefined();
+
+    vi.advanceTimersByTime(1);
+    expect(list.isRevoked('key1')).toBeUndefined();
+    expect(list.size).toBe(0);
+  });
+
+  it('should propagate revocations through a shared backend', async () => {
+    const backend = new EventEmitterRevocationBackend();
+    const first = createRevocationList({ backend });
+    const second = createRevocationList({ backend });
+    const listener = vi.fn();
+    second.subscribe(listener);
+
+    await first.revoke('key1');
+
+    expect(second.isRevoked('key1')).toBeDefined();
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 'key1' }));
+  });
+
+  it('should ignore expired entries from the backend', () => {
+    const backend = new EventEmitterRevocationBackend();
+    const list = createRevocationList({ backend });
+
+    backend.publish({ id: 'key1', expiresAt: Date.now() - 1 });
+
+    expect(list.isRevoked('key1')).toBeUndefined();
+  });
+
+  it('should stop listening after close or unsubscribe', async () => {
+    const backend = new EventEmitterRevocationBackend();
+    const list = createRevocationList({ backend });
+    const other = createRevocationList({ backend });
+    const listener = vi.fn();
+    const unsubscribe = list.subscribe(listener);
+
+    unsubscribe();
+    await other.revoke('key1');
+    list.close();
+    await other.revoke('key2');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(list.isRevoked('key1')).toBeDefined();
+    expect(list.isRevoked('key2')).toBeUndefined();
+  });
+
+  it('should support asynchronous backends', async () => {
+    const published: unknown[] = [];
+    const list = createRevocationList({
+      backend: {
+        publish: async (entry): Promise<void> => {
+          published.push(entry);
+        },
+        subscribe: () => () => undefined,
+      },
+    });
+
+    await list.revoke('key1');
+
+    expect(list.isRevoked('key1')).toBeDefined();
+    expect(published).toEqual([expect.objectContaining({ id: 'key1' })]);
+  });
+});
+
+describe('revocations in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reject keys revoked by key ID, even when cached', async () => {
+    const validate = vi.fn(async () => ({ valid: true, keyId: 'key1' }));
+    app = await createTestApp({ validate, cache: true });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    const before = await app.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_abc' } });
+    await app.apiKeyRevocations.revoke('key1');
+    const after = await app.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_abc' } });
+
+    expect(before.statusCode).toBe(200);
+    expect(after.statusCode).toBe(401);
+    expect(after.json().code).toBe('REVOKED_API_KEY');
+    expect(validate).toHaveBeenCalledOnce();
+  });
+
+  it('should reject keys revoked by fingerprint without calling validate', async () => {
+    const validate = vi.fn(async () => ({ valid: true }));
+    app = await createTestApp({ validate });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.apiKeyRevocations.revoke(fingerprintApiKey('sk_test_abc'));
+    const revoked = await app.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_abc' } });
+    const other = await app.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_def' } });
+
+    expect(revoked.json().code).toBe('REVOKED_API_KEY');
+    expect(other.statusCode).toBe(200);
+    expect(validate).toHaveBeenCalledOnce();
+  });
+
+  it('should reject structured keys revoked by their parsed key ID', async () => {
+    const { key, keyId } = generateStructuredApiKey();
+    const validate = vi.fn(async () => ({ valid: true }));
+    app = await createTestApp({ validate, structuredKeys: true });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.apiKeyRevocations.revoke(keyId);
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+
+    expect(response.json().code).toBe('REVOKED_API_KEY');
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it('should treat revoked keys as anonymous when allowed', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true, keyId: 'key1' }) });
+    app.get('/test', { preHandler: app.apiKey({ allowAnonymous: true }) }, async (request) => ({
+      authenticated: request.apiKey !== undefined,
+    }));
+
+    await app.apiKeyRevocations.revoke('key1');
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_abc' } });
+
+    expect(response.json()).toEqual({ authenticated: false });
+  });
+
+  it('should share revocations between instances', async () => {
+    const backend = new EventEmitterRevocationBackend();
+    const validate = async (): Promise<{ valid: boolean; keyId: string }> => ({
+      valid: true,
+      keyId: 'key1',
+    });
+    app = await createTestApp({ validate, revocations: { backend } });
+    const other = await createTestApp({ validate, revocations: { backend } });
+    other.get('/test', { preHandler: other.apiKey() }, async () => ({ ok: true }));
+
+    await app.apiKeyRevocations.revoke('key1');
+    const response = await other.inject({ url: '/test', headers: { 'X-API-Key': 'sk_test_abc' } });
+
+    expect(response.json().code).toBe('REVOKED_API_KEY');
+    await other.close();
+  });
+});
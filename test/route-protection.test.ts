@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fastifyApiKey, { type RouteProtection } from '../src/index.js';
+import { createTestApp } from './helpers.js';
+
+describe('declarative route protection', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  const validate = async (key: string) => ({
+    valid: key !== 'invalid',
+    scopes: key.split(','),
+  });
+
+  it('should protect routes without config by default', async () => {
+    app = await createTestApp({ protectRoutes: { report: false }, validate });
+
+    app.get('/open-by-mistake', async () => ({ success: true }));
+
+    const missing = await app.inject({ url: '/open-by-mistake' });
+    const valid = await app.inject({ url: '/open-by-mistake', headers: { 'X-API-Key': 'read' } });
+
+    expect(missing.statusCode).toBe(401);
+    expect(valid.statusCode).toBe(200);
+  });
+
+  it('should read requirements from config.apiKey', async () => {
+    app = await createTestApp({ protectRoutes: { report: false }, validate });
+
+    app.get('/admin', { config: { apiKey: { scopes: ['admin'] } } }, async (request) => ({
+      scopes: request.apiKey?.scopes,
+    }));
+
+    const denied = await app.inject({ url: '/admin', headers: { 'X-API-Key': 'read' } });
+    const allowed = await app.inject({ url: '/admin', headers: { 'X-API-Key': 'admin' } });
+
+    expect(denied.statusCode).toBe(403);
+    expect(allowed.statusCode).toBe(200);
+    expect(allowed.json()).toEqual({ scopes: ['admin'] });
+  });
+
+  it('should let routes opt out with config.apiKey = false', async () => {
+    app = await createTestApp({ protectRoutes: { report: false }, validate });
+
+    app.get('/health', { config: { apiKey: false } }, async () => ({ ok: true }));
+
+    expect((await app.inject({ url: '/health' })).statusCode).toBe(200);
+  });
+
+  it('should support allowAnonymous in route config', async () => {
+    app = await createTestApp({ protectRoutes: { report: false }, validate });
+
+    app.get('/feed', { config: { apiKey: { allowAnonymous: true } } }, async (request) => ({
+      authenticated: !!request.apiKey,
+    }));
+
+    expect((await app.inject({ url: '/feed' })).json()).toEqual({ authenticated: false });
+  });
+
+  it('should run the guard before existing preHandlers', async () => {
+    app = await createTestApp({ protectRoutes: { report: false }, validate });
+
+    const seen: (string[] | undefined)[] = [];
+    app.get(
+      '/test',
+      {
+        preHandler: (request, _reply, done) => {
+          seen.push(request.apiKey?.scopes);
+          done();
+        },
+      },
+      async () => ({ success: true })
+    );
+
+    await app.inject({ url: '/test', headers: { 'X-API-Key': 'read' } });
+
+    expect(seen).toEqual([['read']]);
+  });
+
+  it('should not add a second guard to routes wired manually', async () => {
+    let calls = 0;
+    app = await createTestApp({
+      protectRoutes: { report: false },
+      validate: async () => {
+        calls++;
+        return { valid: true, scopes: ['admin'] };
+      },
+    });
+
+    app.get('/manual', { preHandler: app.apiKey({ scopes: ['admin'] }) }, async () => ({
+      success: true,
+    }));
+
+    const response = await app.inject({ url: '/manual', headers: { 'X-API-Key': 'key' } });
+
+    expect(response.statusCode).toBe(200);
+    expect(calls).toBe(1);
+  });
+
+  it('should not protect routes when the option is not set', async () => {
+    app = await createTestApp({ validate });
+
+    app.get('/test', async () => ({ success: true }));
+
+    expect((await app.inject({ url: '/test' })).statusCode).toBe(200);
+  });
+
+  it('should report every route and its requirements when ready', async () => {
+    let report: RouteProtection[] = [];
+    app = await createTestApp({
+      protectRoutes: {
+        report: (routes) => {
+          report = routes;
+        },
+      },
+      validate,
+    });
+
+    app.get('/default', async () => ({}));
+    app.post('/admin', { config: { apiKey: { scopes: ['admin'] } } }, async () => ({}));
+    app.get('/health', { config: { apiKey: false } }, async () => ({}));
+    app.delete('/manual', { preHandler: app.apiKey({ anyScope: ['owner'] }) }, async () => ({}));
+
+    await app.ready();
+
+    expect(report).toEqual([
+      { method: 'GET', url: '/default', protected: true, requirements: {} },
+      { method: 'HEAD', url: '/default', protected: true, requirements: {} },
+      { method: 'POST', url: '/admin', protected: true, requirements: { scopes: ['admin'] } },
+      { method: 'GET', url: '/health', protected: false },
+      { method: 'HEAD', url: '/health', protected: false },
+      {
+        method: 'DELETE',
+        url: '/manual',
+        protected: true,
+        requirements: { anyScope: ['owner'] },
+      },
+    ]);
+  });
+
+  it('should report routes registered before the plugin as unprotected', async () => {
+    let report: RouteProtection[] = [];
+    app = Fastify({ logger: false });
+    const warn = vi.spyOn(app.log, 'warn');
+    app.get('/', async () => ({}));
+    app.post('/before/:id', async () => ({}));
+    await app.register(fastifyApiKey, {
+      protectRoutes: {
+        report: (routes) => {
+          report = routes;
+        },
+      },
+      validate,
+    });
+    app.get('/after', async () => ({}));
+
+    await app.ready();
+
+    const before = [
+      { method: 'GET', url: '/', protected: false, registeredBefore: true },
+      { method: 'HEAD', url: '/', protected: false, registeredBefore: true },
+      { method: 'POST', url: '/before/:id', protected: false, registeredBefore: true },
+    ];
+    expect(report).toEqual([
+      ...before,
+      { method: 'GET', url: '/after', protected: true, requirements: {} },
+      { method: 'HEAD', url: '/after', protected: true, requirements: {} },
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      { routes: before },
+      'Routes registered before fastify-api-key are not protected by protectRoutes'
+    );
+    expect((await app.inject({ url: '/after' })).statusCode).toBe(401);
+  });
+});
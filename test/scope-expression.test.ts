@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import {
+  compileScopeExpression,
+  evaluateScopeExpression,
+  formatScopeExpression,
+} from '../src/scope-expression.js';
+import { createScopeMatcher } from '../src/scopes.js';
+import { createTestApp } from './helpers.js';
+
+describe('compileScopeExpression', () => {
+  it('should parse a single scope', () => {
+    expect(compileScopeExpression('admin')).toEqual({ type: 'scope', scope: 'admin' });
+  });
+
+  it('should give AND precedence over OR', () => {
+    expect(compileScopeExpression('a OR b AND c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'scope', scope: 'a' },
+        {
+          type: 'and',
+          children: [
+            { type: 'scope', scope: 'b' },
+            { type: 'scope', scope: 'c' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should parse parentheses and NOT', () => {
+    expect(compileScopeExpression('billing:read AND NOT (sandbox OR test)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'scope', scope: 'billing:read' },
+        {
+          type: 'not',
+          child: {
+            type: 'or',
+            children: [
+              { type: 'scope', scope: 'sandbox' },
+              { type: 'scope', scope: 'test' },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should compile the object form', () => {
+    expect(
+      compileScopeExpression({ and: ['billing:read', { or: ['orders:write', 'admin'] }] })
+    ).toEqual(compileScopeExpression('billing:read AND (orders:write OR admin)'));
+    expect(compileScopeExpression({ not: 'sandbox' })).toEqual({
+      type: 'not',
+      child: { type: 'scope', scope: 'sandbox' },
+    });
+  });
+
+  it('should reject invalid string expressions', () => {
+    for (const expression of [
+      '',
+      '   ',
+      'a AND',
+      'AND a',
+      'a OR OR b',
+      '(a OR b',
+      'a OR b)',
+      'a b',
+      '()',
+      'NOT',
+    ]) {
+      expect(() => compileScopeExpression(expression), expression).toThrow(
+        /Invalid scope expression/
+      );
+    }
+  });
+
+  it('should reject invalid object expressions', () => {
+    expect(() => compileScopeExpression({ and: [] })).toThrow(/non-empty array/);
+    expect(() => compileScopeExpression({ xor: ['a'] } as any)).toThrow(/unknown operator/);
+    expect(() => compileScopeExpression({ and: ['a'], or: ['b'] } as any)).toThrow(/exactly one/);
+    expect(() => compileScopeExpression({ and: ['a OR b'] })).toThrow(/Invalid scope/);
+    expect(() => compileScopeExpression({ not: 42 } as any)).toThrow(/Invalid scope expression/);
+  });
+});
+
+describe('evaluateScopeExpression', () => {
+  const expression = compileScopeExpression('billing:read AND (orders:write OR admin)');
+
+  it('should pass when the expression is satisfied', () => {
+    expect(evaluateScopeExpression(expression, ['billing:read', 'admin'])).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should report the failed clause and its missing scopes', () => {
+    const result = evaluateScopeExpression(expression, ['billing:read']);
+
+    expect(result.valid).toBe(false);
+    expect(result.failedClause && formatScopeExpression(result.failedClause)).toBe(
+      'orders:write OR admin'
+    );
+    expect(result.missing).toEqual(['orders:write', 'admin']);
+  });
+
+  it('should report the first failing AND branch', () => {
+    const result = evaluateScopeExpression(expression, ['admin']);
+
+    expect(result.failedClause && formatScopeExpression(result.failedClause)).toBe('billing:read');
+    expect(result.missing).toEqual(['billing:read']);
+  });
+
+  it('should fail NOT clauses when the negated scopes are granted', () => {
+    const result = evaluateScopeExpression(compileScopeExpression('read AND NOT sandbox'), [
+      'read',
+      'sandbox',
+    ]);
+
+    expect(result.failedClause && formatScopeExpression(result.failedClause)).toBe('NOT sandbox');
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should use the scope matcher', () => {
+    const matcher = createScopeMatcher({ implies: { admin: ['*'] } });
+
+    expect(evaluateScopeExpression(expression, ['admin'], matcher).valid).toBe(true);
+  });
+});
+
+describe('formatScopeExpression', () => {
+  it('should round-trip expressions with minimal parentheses', () => {
+    for (const expression of [
+      'a AND (b OR c)',
+      'a OR b AND c',
+      'NOT a',
+      'NOT (a AND b)',
+      'NOT NOT a',
+    ]) {
+      expect(formatScopeExpression(compileScopeExpression(expression))).toBe(expression);
+    }
+  });
+});
+
+describe('requires guard option', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it('should enforce boolean scope expressions', async () => {
+    app = await createTestApp({
+      validate: async (key) => ({ valid: true, scopes: key.split(',') }),
+    });
+
+    app.post(
+      '/orders',
+      { preHandler: app.apiKey({ requires: 'billing:read AND (orders:write OR admin)' }) },
+      async () => ({ success: true })
+    );
+
+    const inject = (key: string) =>
+      app.inject({ method: 'POST', url: '/orders', headers: { 'X-API-Key': key } });
+
+    expect((await inject('billing:read,orders:write')).statusCode).toBe(200);
+    expect((await inject('billing:read,admin')).statusCode).toBe(200);
+
+    const response = await inject('billing:read');
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({
+      code: 'INSUFFICIENT_SCOPES',
+      message: 'Insufficient scopes. Required: orders:write OR admin',
+    });
+  });
+
+  it('should combine requires with scopes', async () => {
+    app = await createTestApp({
+      validate: async () => ({ valid: true, scopes: ['read', 'admin'] }),
+    });
+
+    app.get(
+      '/test',
+      { preHandler: app.apiKey({ scopes: ['read'], requires: { not: 'admin' } }) },
+      async () => ({ success: true })
+    );
+
+    const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+    expect(response.statusCode).toBe(403);
+    expect(response.json().message).toBe('Insufficient scopes. Required: NOT admin');
+  });
+
+  it('should throw at route registration for invalid expressions', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true }) });
+
+    expect(() => app.apiKey({ requires: 'read AND' })).toThrow(/Invalid scope expression/);
+  });
+});
@@ -1,6 +1,75 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import type { FastifyInstance } from 'fastify';
 import { createTestApp, TEST_SCOPES } from './helpers.js';
+import { createScopeMatcher, exactScopeMatcher } from '../src/scopes.js';
+
+describe('createScopeMatcher', () => {
+  it('should match exact scopes', () => {
+    const matches = createScopeMatcher();
+
+    expect(matches(['repo:read'], 'repo:read')).toBe(true);
+    expect(matches(['repo:read'], 'repo:write')).toBe(false);
+  });
+
+  it('should match namespace wildcards', () => {
+    const matches = createScopeMatcher();
+
+    expect(matches(['repo:*'], 'repo:read')).toBe(true);
+    expect(matches(['repo:*'], 'repo:issues:write')).toBe(true);
+    expect(matches(['repo:*'], 'repo:*')).toBe(true);
+    expect(matches(['repo:*'], 'repo')).toBe(false);
+    expect(matches(['repo:*'], 'repository:read')).toBe(false);
+    expect(matches(['repo:read'], 'repo:*')).toBe(false);
+  });
+
+  it('should match the global wildcard', () => {
+    expect(createScopeMatcher()(['*'], 'anything:at:all')).toBe(true);
+  });
+
+  it('should support a custom separator', () => {
+    const matches = createScopeMatcher({ separator: '.' });
+
+    expect(matches(['repo.*'], 'repo.read')).toBe(true);
+    expect(matches(['repo:*'], 'repo:read')).toBe(false);
+  });
+
+  it('should treat wildcards literally when disabled', () => {
+    const matches = createScopeMatcher({ wildcards: false });
+
+    expect(matches(['repo:*'], 'repo:read')).toBe(false);
+    expect(matches(['*'], 'read')).toBe(false);
+    expect(matches(['*'], '*')).toBe(true);
+  });
+
+  it('should follow transitive implications', () => {
+    const matches = createScopeMatcher({ implies: { admin: ['write'], write: ['read'] } });
+
+    expect(matches(['admin'], 'read')).toBe(true);
+    expect(matches(['write'], 'read')).toBe(true);
+    expect(matches(['read'], 'write')).toBe(false);
+  });
+
+  it('should combine implications with wildcards and survive cycles', () => {
+    const matches = createScopeMatcher({
+      implies: { owner: ['repo:*', 'billing'], billing: ['owner'] },
+    });
+
+    expect(matches(['owner'], 'repo:delete')).toBe(true);
+    expect(matches(['billing'], 'repo:read')).toBe(true);
+    expect(matches(['billing'], 'admin')).toBe(false);
+  });
+
+  it('should not treat inherited object properties as implications', () => {
+    expect(createScopeMatcher({ implies: {} })(['constructor'], 'read')).toBe(false);
+  });
+});
+
+describe('exactScopeMatcher', () => {
+  it('should only match identical scopes', () => {
+    expect(exactScopeMatcher(['repo:*'], 'repo:read')).toBe(false);
+    expect(exactScopeMatcher(['repo:read'], 'repo:read')).toBe(true);
+  });
+});
 
 describe('scopes system', () => {
   let app: FastifyInstance;
@@ -316,4 +385,49 @@ describe('scopes system', () => {
       expect(body.message).toContain('write');
     });
   });
+
+  describe('custom scope matcher', () => {
+    it('should grant access through wildcards and implications', async () => {
+      app = await createTestApp({
+        scopeMatcher: createScopeMatcher({ implies: { admin: ['write'], write: ['read'] } }),
+        validate: async (key) => ({
+          valid: true,
+          scopes: key === 'admin-key' ? ['admin'] : ['repo:*'],
+        }),
+      });
+
+      app.get('/repo', { preHandler: app.apiKey({ scopes: ['repo:read'] }) }, async () => ({
+        access: 'granted',
+      }));
+      app.get('/read', { preHandler: app.apiKey({ scopes: ['read'] }) }, async () => ({
+        access: 'granted',
+      }));
+
+      const repo = await app.inject({ url: '/repo', headers: { 'X-API-Key': 'repo-key' } });
+      const read = await app.inject({ url: '/read', headers: { 'X-API-Key': 'admin-key' } });
+      const denied = await app.inject({ url: '/read', headers: { 'X-API-Key': 'repo-key' } });
+
+      expect(repo.statusCode).toBe(200);
+      expect(read.statusCode).toBe(200);
+      expect(denied.statusCode).toBe(403);
+    });
+
+    it('should report only the truly missing scopes', async () => {
+      app = await createTestApp({
+        scopeMatcher: createScopeMatcher(),
+        validate: async () => ({ valid: true, scopes: ['repo:*'] }),
+      });
+
+      app.get(
+        '/test',
+        { preHandler: app.apiKey({ scopes: ['repo:read', 'billing:read', 'repo:write'] }) },
+        async () => ({ access: 'granted' })
+      );
+
+      const response = await app.inject({ url: '/test', headers: { 'X-API-Key': 'key' } });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toBe('Insufficient scopes. Required: billing:read');
+    });
+  });
 });
@@ -0,0 +1,485 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import {
+  InMemoryNonceStore,
+  canonicalizeRequest,
+  createSignedUrl,
+  signRequest,
+  type FastifyApiKeyOptions,
+  type NonceStore,
+} from '../src/index.js';
+import { createTestApp } from './helpers.js';
+
+const KEY_ID = 'partner1';
+const SECRET = 'partner-signing-secret';
+
+describe('InMemoryNonceStore', () => {
+  it('should reject a nonce until it expires', () => {
+    const store = new InMemoryNonceStore();
+
+    expect(store.add('a', 2000, 1000)).toBe(true);
+    expect(store.add('a', 3000, 1500)).toBe(false);
+    expect(store.add('b', 2000, 1500)).toBe(true);
+    expect(store.add('a', 5000, 2000)).toBe(true);
+  });
+});
+
+describe('canonicalizeRequest', () => {
+  it('should list the signed parts one per line', () => {
+    expect(
+      canonicalizeRequest({
+        method: 'post',
+        url: '/orders?dry=1',
+        timestamp: '1700000000',
+        nonce: 'abcdefgh',
+        headers: [
+          ['host', 'api.example.com'],
+          ['content-type', ' application/json '],
+        ],
+        bodyDigest: 'digest',
+      })
+    ).toBe(
+      'POST\n/orders?dry=1\n1700000000\nabcdefgh\nhost:api.example.com\ncontent-type:application/json\ndigest'
+    );
+  });
+});
+
+describe('signRequest', () => {
+  it('should return the signature headers', () => {
+    const headers = signRequest({
+      keyId: KEY_ID,
+      secret: SECRET,
+      method: 'GET',
+      url: '/orders',
+      timestamp: 1700000000,
+      nonce: 'abcdefgh',
+    });
+
+    expect(headers).toEqual({
+      'x-api-key-id': KEY_ID,
+      'x-signature-timestamp': '1700000000',
+      'x-signature-nonce': 'abcdefgh',
+      'x-signature': expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+  });
+
+  it('should use custom header names', () => {
+    const headers = signRequest({
+      keyId: KEY_ID,
+      secret: SECRET,
+      method: 'GET',
+      url: '/orders',
+      headerNames: { keyId: 'x-key', signature: 'x-sig' },
+    });
+
+    expect(Object.keys(headers)).toEqual([
+      'x-key',
+      'x-signature-timestamp',
+      'x-signature-nonce',
+      'x-sig',
+    ]);
+  });
+
+  it('should generate distinct nonces', () => {
+    const sign = (): string | undefined =>
+      signRequest({ keyId: KEY_ID, secret: SECRET, method: 'GET', url: '/' })['x-signature-nonce'];
+
+    expect(sign()).not.toBe(sign());
+  });
+});
+
+describe('signed requests', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app.close();
+  });
+
+  const setup = async (options: Partial<FastifyApiKeyOptions> = {}): Promise<void> => {
+    app = await createTestApp({
+      validate: async (key) => ({ valid: key === 'sk_bearer_key' }),
+      signing: {
+        validate: async (keyId) =>
+          keyId === KEY_ID
+            ? { valid: true, signingSecret: SECRET, scopes: ['orders:write'] }
+            : { valid: false },
+      },
+      ...options,
+    });
+    app.post(
+      '/orders',
+      { preHandler: app.apiKey({ signed: true, scopes: ['orders:write'] }) },
+      async (request) => ({ keyId: request.apiKey?.keyId, body: request.body })
+    );
+    app.get('/bearer', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+  };
+
+  const sign = (
+    body: string,
+    overrides: Partial<Parameters<typeof signRequest>[0]> = {}
+  ): Record<string, string> =>
+    signRequest({
+      keyId: KEY_ID,
+      secret: SECRET,
+      method: 'POST',
+      url: '/orders',
+      headers: { host: 'localhost:80', 'content-type': 'application/json' },
+      body,
+      ...overrides,
+    });
+
+  const send = (body: string, headers: Record<string, string>, url = '/orders') =>
+    app.inject({
+      method: 'POST',
+      url,
+      headers: { 'content-type': 'application/json', ...headers },
+      payload: body,
+    });
+
+  it('should accept a correctly signed request', async () => {
+    await setup();
+    const body = JSON.stringify({ item: 'book' });
+
+    const response = await send(body, sign(body));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ keyId: KEY_ID, body: { item: 'book' } });
+  });
+
+  it('should reject a tampered body', async () => {
+    await setup();
+    const headers = sign(JSON.stringify({ item: 'book' }));
+
+    const response = await send(JSON.stringify({ item: 'car' }), headers);
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject a tampered URL', async () => {
+    await setup();
+    const body = '{}';
+
+    const response = await send(body, sign(body), '/orders?admin=1');
+
+    expect(response.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject a signature made with another secret', async () => {
+    await setup();
+    const body = '{}';
+
+    const response = await send(body, sign(body, { secret: 'wrong' }));
+
+    expect(response.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject incomplete signature headers', async () => {
+    await setup();
+    const body = '{}';
+    const headers = sign(body);
+    headers['x-signature-nonce'] = '';
+
+    const response = await send(body, headers);
+
+    expect(response.json()).toMatchObject({
+      code: 'INVALID_SIGNATURE',
+      message: 'Missing or malformed signature headers',
+    });
+  });
+
+  it('should reject keys without a signing secret', async () => {
+    await setup({
+      signing: { validate: async () => ({ valid: true, scopes: ['orders:write'] }) },
+    });
+    const body = '{}';
+
+    const response = await send(body, sign(body));
+
+    expect(response.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject unknown key IDs', async () => {
+    await setup();
+    const body = '{}';
+
+    const response = await send(body, sign(body, { keyId: 'other' }));
+
+    expect(response.json().code).toBe('INVALID_API_KEY');
+  });
+
+  it('should reject stale timestamps before validation', async () => {
+    const validate = vi.fn(async () => ({ valid: true, signingSecret: SECRET }));
+    await setup({ signing: { validate, tolerance: 60_000 } });
+    const body = '{}';
+
+    const old = await send(body, sign(body, { timestamp: Math.floor(Date.now() / 1000) - 120 }));
+    const future = await send(body, sign(body, { timestamp: Math.floor(Date.now() / 1000) + 120 }));
+
+    expect(old.json().code).toBe('STALE_TIMESTAMP');
+    expect(future.json().code).toBe('STALE_TIMESTAMP');
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it('should reject replays', async () => {
+    await setup();
+    const body = '{}';
+    const headers = sign(body);
+
+    const first = await send(body, headers);
+    const replay = await send(body, headers);
+
+    expect(first.statusCode).toBe(200);
+    expect(replay.statusCode).toBe(401);
+    expect(replay.json().code).toBe('REPLAYED_REQUEST');
+  });
+
+  it('should not record nonces of forged requests', async () => {
+    const add = vi.fn(() => true);
+    const nonceStore: NonceStore = { add };
+    await setup({
+      signing: {
+        nonceStore,
+        validate: async () => ({ valid: true, signingSecret: SECRET, scopes: ['orders:write'] }),
+      },
+    });
+    const body = '{}';
+
+    await send(body, sign(body, { secret: 'wrong' }));
+
+    expect(add).not.toHaveBeenCalled();
+  });
+
+  it('should scope nonces to the key', async () => {
+    const add = vi.fn(() => true);
+    const nonceStore: NonceStore = { add };
+    await setup({
+      signing: {
+        nonceStore,
+        validate: async () => ({ valid: true, signingSecret: SECRET, scopes: ['orders:write'] }),
+      },
+    });
+    const body = '{}';
+
+    await send(body, sign(body, { nonce: 'nonce-123' }));
+
+    expect(add).toHaveBeenCalledWith(`${KEY_ID}:nonce-123`, expect.any(Number), expect.any(Number));
+  });
+
+  it('should sign selected headers', async () => {
+    await setup({
+      signing: {
+        signedHeaders: ['x-tenant'],
+        validate: async () => ({ valid: true, signingSecret: SECRET, scopes: ['orders:write'] }),
+      },
+    });
+    const body = '{}';
+    const headers = sign(body, { headers: { 'X-Tenant': 'acme' }, signedHeaders: ['x-tenant'] });
+
+    const valid = await send(body, { ...headers, 'x-tenant': 'acme' });
+    const tampered = await send(body, {
+      ...sign(body, { headers: { 'X-Tenant': 'acme' }, signedHeaders: ['x-tenant'] }),
+      'x-tenant': 'evil',
+    });
+
+    expect(valid.statusCode).toBe(200);
+    expect(tampered.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should not accept key IDs as bearer keys', async () => {
+    await setup();
+
+    const response = await app.inject({ url: '/bearer', headers: { 'X-API-Key': KEY_ID } });
+
+    expect(response.json().code).toBe('INVALID_API_KEY');
+  });
+
+  it('should require a key ID', async () => {
+    await setup();
+
+    const response = await send('{}', { 'X-API-Key': 'sk_bearer_key' });
+
+    expect(response.json().code).toBe('MISSING_API_KEY');
+  });
+
+  it('should sign requests without a body', async () => {
+    await setup();
+    app.get('/orders/1', { preHandler: app.apiKey({ signed: true }) }, async () => ({ ok: true }));
+
+    const response = await app.inject({
+      url: '/orders/1',
+      headers: signRequest({
+        keyId: KEY_ID,
+        secret: SECRET,
+        method: 'GET',
+        url: '/orders/1',
+        headers: { host: 'localhost:80' },
+      }),
+    });
+
+    expect(response.json()).toEqual({ ok: true });
+  });
+
+  it('should require the signing option for signed routes', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true }) });
+
+    expect(() => app.apiKey({ signed: true })).toThrow(
+      'fastify-api-key requires the signing option for signed routes'
+    );
+  });
+});
+
+describe('createSignedUrl', () => {
+  it('should carry the key ID, expiry and scopes but not the key', () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const url = new URL(
+      createSignedUrl('https://files.example.com/report.pdf?x-key-id=spoofed&v=2', {
+        keyId: KEY_ID,
+        secret: SECRET,
+        expiresIn: 60_000,
+        scopes: ['files:read', 'files:list'],
+      })
+    );
+    vi.useRealTimers();
+
+    expect(url.origin).toBe('https://files.example.com');
+    expect(url.pathname).toBe('/report.pdf');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      v: '2',
+      'x-key-id': KEY_ID,
+      'x-expires': '1700000060',
+      'x-scopes': 'files:read files:list',
+      'x-signature': expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(url.href).not.toContain(SECRET);
+  });
+
+  it('should keep relative URLs relative', () => {
+    const url = createSignedUrl('/report.pdf', { keyId: KEY_ID, secret: SECRET, expiresIn: 1000 });
+
+    expect(url).toMatch(
+      /^\/report\.pdf\?x-key-id=partner1&x-expires=\d+&x-signature=[0-9a-f]{64}$/
+    );
+  });
+});
+
+describe('signed URLs', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app.close();
+  });
+
+  const setup = async (options: Partial<FastifyApiKeyOptions> = {}): Promise<void> => {
+    app = await createTestApp({
+      validate: async () => ({ valid: false }),
+      signing: {
+        validate: async (keyId) =>
+          keyId === KEY_ID
+            ? { valid: true, signingSecret: SECRET, scopes: ['files:read', 'files:write'] }
+            : { valid: false },
+      },
+      ...options,
+    });
+    app.get(
+      '/files/:name',
+      { preHandler: app.apiKey({ signedUrl: true, scopes: ['files:read'] }) },
+      async (request) => ({ keyId: request.apiKey?.keyId, scopes: request.apiKey?.scopes })
+    );
+  };
+
+  const signUrl = (url: string, scopes = ['files:read'], expiresIn = 60_000): string =>
+    createSignedUrl(url, { keyId: KEY_ID, secret: SECRET, expiresIn, scopes });
+
+  it('should accept a signed URL and restrict the scopes of the request', async () => {
+    await setup();
+
+    const response = await app.inject({ method: 'GET', url: signUrl('/files/report.pdf') });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ keyId: KEY_ID, scopes: ['files:read'] });
+  });
+
+  it('should reject an expired URL', async () => {
+    await setup();
+    const url = signUrl('/files/report.pdf', ['files:read'], 1000);
+    vi.useFakeTimers({ now: Date.now() + 2000 });
+
+    const response = await app.inject({ method: 'GET', url });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('EXPIRED_SIGNED_URL');
+  });
+
+  it('should reject a tampered path or scope', async () => {
+    await setup();
+    const url = signUrl('/files/report.pdf');
+
+    const path = await app.inject({ method: 'GET', url: url.replace('report', 'secret') });
+    const scopes = await app.inject({
+      method: 'GET',
+      url: url.replace('files%3Aread', 'files%3Awrite'),
+    });
+
+    expect(path.json().code).toBe('INVALID_SIGNATURE');
+    expect(scopes.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject parameters appended after the signature', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `${signUrl('/files/report.pdf')}&x-scopes=files%3Awrite`,
+    });
+
+    expect(response.json().code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should reject a URL granting scopes beyond those of the key', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: signUrl('/files/report.pdf', ['files:read', 'admin']),
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().code).toBe('INSUFFICIENT_SCOPES');
+  });
+
+  it('should check route scopes against the scopes of the URL', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: signUrl('/files/report.pdf', ['files:write']),
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().code).toBe('INSUFFICIENT_SCOPES');
+  });
+
+  it('should not accept API keys from the configured sources', async () => {
+    await setup({ validate: async () => ({ valid: true, scopes: ['files:read'] }) });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/files/report.pdf',
+      headers: { 'x-api-key': 'sk_any' },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('MISSING_API_KEY');
+  });
+
+  it('should require the signing option', async () => {
+    app = await createTestApp({ validate: async () => ({ valid: true }) });
+
+    expect(() => app.apiKey({ signedUrl: true })).toThrow(
+      'fastify-api-key requires the signing option for signed routes'
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { InMemoryApiKeyStore, createApiKey, validateFromStore } from '../src/store.js';
+import { hashApiKey } from '../src/hashing.js';
+import { createTestApp } from './helpers.js';
+
+const FAST_SCRYPT = { cost: 1024, blockSize: 8, parallelization: 1 };
+
+describe('InMemoryApiKeyStore', () => {
+  it('should create and find records by ID and hash', async () => {
+    const store = new InMemoryApiKeyStore();
+    const created = await store.create({ id: 'key1', hash: 'hash1', scopes: ['read'] });
+
+    expect(created).toMatchObject({ id: 'key1', hash: 'hash1', scopes: ['read'], metadata: {} });
+    expect(created.createdAt).toBeInstanceOf(Date);
+    expect(await store.findById('key1')).toEqual(created);
+    expect(await store.findByHash('hash1')).toEqual(created);
+    expect(await store.findById('missing')).toBeNull();
+    expect(await store.findByHash('missing')).toBeNull();
+  });
+
+  it('should reject duplicate IDs', async () => {
+    const store = new InMemoryApiKeyStore();
+    await store.create({ id: 'key1', hash: 'hash1' });
+
+    await expect(store.create({ id: 'key1', hash: 'hash2' })).rejects.toThrow(/already exists/);
+  });
+
+  it('should list all records', async () => {
+    const store = new InMemoryApiKeyStore();
+    await store.create({ id: 'a', hash: 'ha' });
+    await store.create({ id: 'b', hash: 'hb' });
+    await store.revoke('b');
+
+    expect((await store.list()).map((record) => record.id)).toEqual(['a', 'b']);
+  });
+
+  it('should update scopes, metadata and hash', async () => {
+    const store = new InMemoryApiKeyStore();
+    await store.create({ id: 'key1', hash: 'old', scopes: ['read'] });
+
+    const updated = await store.update('key1', {
+      scopes: ['read', 'write'],
+      metadata: { tenant: 't1' },
+      hash: 'new',
+    });
+
+    expect(updated).toMatchObject({ scopes: ['read', 'write'], metadata: { tenant: 't1' } });
+    expect(await store.findByHash('old')).toBeNull();
+    expect((await store.findByHash('new'))?.id).toBe('key1');
+    expect(await store.update('missing', { scopes: [] })).toBeNull();
+  });
+
+  it('should revoke records once', async () => {
+    const store = new InMemoryApiKeyStore();
+    await store.create({ id: 'key1', hash: 'hash1' });
+
+    const revoked = await store.revoke('key1');
+    const again = await store.revoke('key1');
+
+    expect(revoked?.revokedAt).toBeInstanceOf(Date);
+    expect(again?.revokedAt).toEqual(revoked?.revokedAt);
+    expect(await store.revoke('missing')).toBeNull();
+  });
+
+  it('should not expose internal state to callers', async () => {
+    const store = new InMemoryApiKeyStore();
+    const created = await store.create({ id: 'key1', hash: 'hash1', scopes: ['read'] });
+    created.scopes.push('admin');
+
+    expect((await store.findById('key1'))?.scopes).toEqual(['read']);
+  });
+
+  it('should not share the objects given to create', async () => {
+    const store = new InMemoryApiKeyStore();
+    const scopes = ['read'];
+    const metadata = { tier: 'free' };
+    const expiresAt = new Date('2099-01-01T00:00:00.000Z');
+    await store.create({ id: 'key1', hash: 'hash1', scopes, metadata, expiresAt });
+
+    scopes.push('admin');
+    metadata.tier = 'pro';
+    expiresAt.setFullYear(2100);
+
+    expect(await store.findById('key1')).toMatchObject({
+      scopes: ['read'],
+      metadata: { tier: 'free' },
+      expiresAt: new Date('2099-01-01T00:00:00.000Z'),
+    });
+  });
+});
+
+describe('createApiKey', () => {
+  it('should store the hash of a generated structured key', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store, {
+      prefix: 'sk_live',
+      name: 'CI',
+      scopes: ['deploy'],
+    });
+
+    expect(key.startsWith(`sk_live_${record.id}_`)).toBe(true);
+    expect(record.hash).toBe(await hashApiKey(key));
+    expect(record).toMatchObject({ name: 'CI', scopes: ['deploy'] });
+    expect(JSON.stringify(await store.list())).not.toContain(key);
+  });
+});
+
+describe('validateFromStore', () => {
+  it('should validate structured keys by ID', async () => {
+    const store = new InMemoryApiKeyStore();
+    const hash = { algorithm: 'scrypt' as const, scrypt: FAST_SCRYPT };
+    const { key, record } = await createApiKey(store, {
+      scopes: ['read'],
+      metadata: { tenant: 't1' },
+      hash,
+    });
+    const validate = validateFromStore(store, { hash });
+
+    expect(await validate(key, {} as any)).toEqual({
+      valid: true,
+      keyId: record.id,
+      scopes: ['read'],
+      metadata: { tenant: 't1' },
+      expiresAt: undefined,
+    });
+    expect((await validate(`${key.slice(0, -9)}_00000000`, {} as any)).valid).toBe(false);
+  });
+
+  it('should validate unstructured keys by hash', async () => {
+    const store = new InMemoryApiKeyStore();
+    await store.create({
+      id: 'legacy',
+      hash: await hashApiKey('legacy-plain-key', { pepper: 'pepper' }),
+      scopes: ['read'],
+    });
+    const validate = validateFromStore(store, { hash: { pepper: 'pepper' } });
+
+    expect(await validate('legacy-plain-key', {} as any)).toMatchObject({
+      valid: true,
+      keyId: 'legacy',
+    });
+    expect(await validate('other-key', {} as any)).toEqual({ valid: false });
+  });
+
+  it('should reject keys with a matching ID but wrong secret', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { record } = await createApiKey(store);
+    const validate = validateFromStore(store);
+    const { key: other } = await createApiKey(new InMemoryApiKeyStore());
+    const forged = other.replace(/^[A-Za-z0-9]+_/, `${record.id}_`);
+
+    expect((await validate(forged, {} as any)).valid).toBe(false);
+  });
+
+  it('should reject revoked keys', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store);
+    await store.revoke(record.id);
+
+    expect(await validateFromStore(store)(key, {} as any)).toEqual({
+      valid: false,
+      revoked: true,
+      keyId: record.id,
+    });
+  });
+
+  it('should rehash outdated hashes after a successful validation', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store);
+    const hash = { algorithm: 'scrypt' as const, scrypt: FAST_SCRYPT };
+
+    expect((await validateFromStore(store, { hash })(key, {} as any)).valid).toBe(true);
+
+    const updated = await store.findById(record.id);
+    expect(updated?.hash).toMatch(/^\$scrypt\$/);
+    expect((await validateFromStore(store, { hash })(key, {} as any)).valid).toBe(true);
+  });
+
+  it('should not rehash when disabled', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store);
+
+    await validateFromStore(store, {
+      hash: { algorithm: 'scrypt', scrypt: FAST_SCRYPT },
+      rehash: false,
+    })(key, {} as any);
+
+    expect((await store.findById(record.id))?.hash).toBe(record.hash);
+  });
+});
+
+describe('key store in plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it('should authenticate keys from the store and enforce expiry', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store, { prefix: 'sk_test', scopes: ['read'] });
+    const { key: expired } = await createApiKey(store, {
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    app = await createTestApp({ validate: validateFromStore(store) });
+    app.get('/test', { preHandler: app.apiKey({ scopes: ['read'] }) }, async (request) => ({
+      keyId: request.apiKey?.keyId,
+    }));
+
+    const valid = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+    const expiredResponse = await app.inject({ url: '/test', headers: { 'X-API-Key': expired } });
+
+    expect(valid.json()).toEqual({ keyId: record.id });
+    expect(expiredResponse.json().code).toBe('EXPIRED_API_KEY');
+  });
+
+  it('should reject keys revoked in the store as revoked, even when cached', async () => {
+    const store = new InMemoryApiKeyStore();
+    const { key, record } = await createApiKey(store);
+    await store.revoke(record.id);
+
+    app = await createTestApp({ validate: validateFromStore(store), cache: true });
+    app.get('/test', { preHandler: app.apiKey() }, async () => ({}));
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await app.inject({ url: '/test', headers: { 'X-API-Key': key } });
+      expect(response.json().code).toBe('REVOKED_API_KEY');
+    }
+  });
+});
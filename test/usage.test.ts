@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import { createUsageTracker, type ApiKeyUsage } from '../src/usage.js';
+import { fingerprintApiKey } from '../src/utils.js';
+import { createTestApp } from './helpers.js';
+
+describe('createUsageTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should aggregate usage per key', async () => {
+    const sink = vi.fn();
+    const tracker = createUsageTracker({ sink });
+
+    tracker.record('key1', '10.0.0.1', 200);
+    tracker.record('key1', '10.0.0.2', 201);
+    tracker.record('key1', '10.0.0.2', 404);
+    tracker.record('key2', '10.0.0.3', 500);
+    await tracker.close();
+
+    expect(sink).toHaveBeenCalledOnce();
+    expect(sink).toHaveBeenCalledWith([
+      {
+        keyId: 'key1',
+        requests: 3,
+        lastUsedAt: expect.any(Date),
+        lastIp: '10.0.0.2',
+        statusCodes: { '2xx': 2, '4xx': 1 },
+      },
+      {
+        keyId: 'key2',
+        requests: 1,
+        lastUsedAt: expect.any(Date),
+        lastIp: '10.0.0.3',
+        statusCodes: { '5xx': 1 },
+      },
+    ]);
+  });
+
+  it('should flush on an interval', async () => {
+    vi.useFakeTimers();
+    const sink = vi.fn();
+    const tracker = createUsageTracker({ sink, flushInterval: 1000 });
+
+    tracker.record('key1', '10.0.0.1', 200);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sink).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink).toHaveBeenCalledOnce();
+    expect(tracker.size).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink).toHaveBeenCalledOnce();
+    await tracker.close();
+  });
+
+  it('should flush early when the buffer is full', () => {
+    const sink = vi.fn();
+    const tracker = createUsageTracker({ sink, maxBufferedKeys: 2 });
+
+    tracker.record('key1', '10.0.0.1', 200);
+    tracker.record('key1', '10.0.0.1', 200);
+    expect(sink).not.toHaveBeenCalled();
+
+    tracker.record('key2', '10.0.0.1', 200);
+    expect(sink).toHaveBeenCalledWith([
+      expect.objectContaining({ keyId: 'key1', requests: 2 }),
+      expect.objectContaining({ keyId: 'key2', requests: 1 }),
+    ]);
+  });
+
+  it('should log sink failures', async () => {
+    const log = { error: vi.fn() } as unknown as FastifyBaseLogger;
+    const tracker = createUsageTracker(
+      {
+        sink: () => {
+          throw new Error('database down');
+        },
+      },
+      log
+    );
+
+    tracker.record('key1', '10.0.0.1', 200);
+    await tracker.flush();
+
+    expect(log.error).toHaveBeenCalledWith(
+      expect.objectContaining({ keys: 1 }),
+      'Failed to flush API key usage'
+    );
+    await tracker.close();
+  });
+});
+
+describe('usage tracking in plugin', () => {
+  let app: FastifyInstance;
+
+  it('should record authenticated requests and flush on close', async () => {
+    const batches: ApiKeyUsage[][] = [];
+    app = await createTestApp({
+      validate: async (key) =>
+        key === 'sk_test_abc' ? { valid: true, keyId: 'key1', scopes: ['read'] } : { valid: false },
+      usage: { sink: (usage) => void batches.push(usage) },
+    });
+    app.get('/ok', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+    app.get('/admin', { preHandler: app.apiKey({ scopes: ['admin'] }) }, async () => ({}));
+    app.get('/fail', { preHandler: app.apiKey() }, async (_request, reply) =>
+      reply.code(500).send({ ok: false })
+    );
+    app.get('/public', async () => ({ ok: true }));
+
+    const headers = { 'X-API-Key': 'sk_test_abc' };
+    await app.inject({ url: '/ok', headers });
+    await app.inject({ url: '/ok', headers });
+    await app.inject({ url: '/fail', headers });
+    await app.inject({ url: '/admin', headers });
+    await app.inject({ url: '/public', headers });
+    await app.inject({ url: '/ok', headers: { 'X-API-Key': 'sk_test_invalid' } });
+
+    expect(batches).toEqual([]);
+    await app.close();
+
+    expect(batches).toEqual([
+      [
+        {
+          keyId: 'key1',
+          requests: 3,
+          lastUsedAt: expect.any(Date),
+          lastIp: '127.0.0.1',
+          statusCodes: { '2xx': 2, '5xx': 1 },
+        },
+      ],
+    ]);
+  });
+
+  it('should identify keys without a key ID by fingerprint', async () => {
+    const sink = vi.fn();
+    app = await createTestApp({ validate: async () => ({ valid: true }), usage: { sink } });
+    app.get('/ok', { preHandler: app.apiKey() }, async () => ({ ok: true }));
+
+    await app.inject({ url: '/ok', headers: { 'X-API-Key': 'sk_test_abc' } });
+    await app.close();
+
+    expect(sink).toHaveBeenCalledWith([
+      expect.objectContaining({ keyId: fingerprintApiKey('sk_test_abc') }),
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { validateScopes } from '../src/validators.js';
+import { createScopeMatcher } from '../src/scopes.js';
 
 describe('validateScopes', () => {
   describe('required scopes (all must be present)', () => {
@@ -105,4 +106,25 @@ describe('validateScopes', () => {
       expect(result.valid).toBe(true);
     });
   });
+
+  describe('custom matcher', () => {
+    const matcher = createScopeMatcher({ implies: { admin: ['*'] } });
+
+    it('should use the matcher for required scopes', () => {
+      expect(validateScopes(['repo:*'], ['repo:read', 'repo:write'], undefined, matcher)).toEqual({
+        valid: true,
+      });
+    });
+
+    it('should report only the scopes the matcher does not grant', () => {
+      expect(validateScopes(['repo:*'], ['repo:read', 'org:read'], undefined, matcher)).toEqual({
+        valid: false,
+        missing: ['org:read'],
+      });
+    });
+
+    it('should use the matcher for anyScope', () => {
+      expect(validateScopes(['admin'], undefined, ['billing:write'], matcher).valid).toBe(true);
+    });
+  });
 });